@@ -1,32 +1,127 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore
+} from "react";
 import type { ChangeEvent, FormEvent } from "react";
 import type { Session } from "@supabase/supabase-js";
 import "./App.css";
 import { supabase } from "./lib/supabaseClient";
+import {
+  readAuthRedirectError,
+  sendMagicLink,
+  sendPasswordReset,
+  signInWithPassword,
+  signUp,
+  updateEmail,
+  updatePassword,
+  validateNewPassword
+} from "./lib/auth";
+import {
+  LOCAL_USER_ID,
+  storageMode,
+  tradeRepository,
+  tradeSync
+} from "./lib/repository";
+import type { SyncState } from "./lib/offlineTradeRepository";
+import { changedFields, snapshotOf } from "./lib/tradeRepository";
+import type {
+  TradeFilter,
+  TradeInput,
+  TradeListFilter,
+  TradePage,
+  TradeRevision
+} from "./lib/tradeRepository";
+import {
+  previousSummaryPeriod,
+  resolveSummaryPeriod,
+  toDateKey
+} from "./lib/summaryPeriod";
+import type { DateRange, SummaryRange } from "./lib/summaryPeriod";
+import {
+  buildListQuery,
+  followLink,
+  getLocationSnapshot,
+  navigate,
+  parseListQuery,
+  parseRoute,
+  routeHref,
+  subscribeToLocation
+} from "./lib/router";
+import type { AppRoute, ListQuery } from "./lib/router";
+import {
+  buildEquityCurve,
+  buildYearHeatmap,
+  summarizeByTag,
+  summarizePerformance,
+  summarizeTotals
+} from "./lib/analytics";
+import { useAsyncQuery } from "./lib/asyncQuery";
+import { pruneAnnotations } from "./lib/annotations";
+import { imageUrlCache } from "./lib/imageUrls";
+import { formatFill, toFillDraft } from "./lib/fills";
+import {
+  releaseImageDrafts,
+  toImageDrafts,
+  viewerImagesOf
+} from "./lib/images";
+import { highlightTermsFor, parseTradeQuery } from "./lib/tradeSearch";
+import { buildListFilter, weekdaysOf } from "./lib/tradeFilter";
+import { formatHoldingTime, holdingMinutes } from "./lib/timing";
+import { SIDE_LABELS, perShareMove, returnRate } from "./lib/position";
+import { parseTradeForm } from "./lib/tradeForm";
+import { isPurgeDue } from "./lib/trash";
+import { diffSnapshots } from "./lib/revisions";
 import { CalendarView } from "./components/CalendarView";
+import type { CalendarMode } from "./components/CalendarView";
 import { EditTradeModal } from "./components/EditTradeModal";
+import { EquityChart } from "./components/EquityChart";
+import { ExportControls } from "./components/ExportControls";
+import { HighlightedText } from "./components/HighlightedText";
+import { ImageViewer } from "./components/ImageViewer";
+import { ImportView } from "./components/ImportView";
 import { LoginView } from "./components/LoginView";
+import { MetricDelta } from "./components/MetricDelta";
+import { PerformanceMetricCards } from "./components/PerformanceMetricCards";
+import { RemoteChangeNotice } from "./components/RemoteChangeNotice";
+import { TagPerformanceTable } from "./components/TagPerformanceTable";
+import { ProfileView } from "./components/ProfileView";
+import { ResetPasswordView } from "./components/ResetPasswordView";
+import { TagSettingsView } from "./components/TagSettingsView";
+import { TickerBreakdownView } from "./components/TickerBreakdownView";
+import { TimingAnalysisPanel } from "./components/TimingAnalysisPanel";
+import { TradeDetailView } from "./components/TradeDetailView";
+import { StoredImage } from "./components/StoredImage";
 import { TradeForm } from "./components/TradeForm";
+import { TrashView } from "./components/TrashView";
+import { UndoToast } from "./components/UndoToast";
 import type {
+  AnnotationShape,
   CalendarCell,
   EditEntryDraft,
+  FillDraft,
   FormState,
+  ImageDraft,
   ImageViewerState,
+  LoginMode,
   LoginState,
   MonthSummary,
-  TradeEntry
+  Tag,
+  TradeEntry,
+  WeekdayFilter
 } from "./types";
 
-type AppView = "dashboard" | "calendar" | "newEntry" | "login";
-type SummaryRange = "daily" | "weekly" | "monthly" | "yearly" | "all";
-type WeekdayFilter = "all" | "friSatSun" | 1 | 2 | 3 | 4;
-
 const SUMMARY_OPTIONS: Array<{ value: SummaryRange; label: string }> = [
-  { value: "daily", label: "本日" },
-  { value: "weekly", label: "今週" },
-  { value: "monthly", label: "今月" },
-  { value: "yearly", label: "今年" },
-  { value: "all", label: "全期間" }
+  { value: "daily", label: "日" },
+  { value: "weekly", label: "週" },
+  { value: "monthly", label: "月" },
+  { value: "quarterly", label: "四半期" },
+  { value: "yearly", label: "年" },
+  { value: "all", label: "全期間" },
+  { value: "custom", label: "期間指定" }
 ];
 
 const WEEKDAY_OPTIONS: Array<{ value: WeekdayFilter; label: string }> = [
@@ -40,14 +135,8 @@ const WEEKDAY_OPTIONS: Array<{ value: WeekdayFilter; label: string }> = [
 
 const PAGE_SIZE = 20;
 
-const dateKey = (date: Date) =>
-  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
-    date.getDate()
-  ).padStart(2, '0')}`;
-
-const STORAGE_BUCKET = "trade-images";
-
-const todayString = () => new Date().toISOString().slice(0, 10);
+// Local calendar date; the UTC date lags behind until 9:00 in Japan.
+const todayString = () => toDateKey(new Date());
 
 const defaultFormState = (): FormState => ({
   ticker: "",
@@ -55,50 +144,221 @@ const defaultFormState = (): FormState => ({
   tradeDate: todayString(),
   reason: "",
   reflection: "",
-  realizedProfit: ""
+  realizedProfit: "",
+  side: "long",
+  entryPrice: "",
+  exitPrice: "",
+  quantity: "",
+  commission: "",
+  entryTime: "",
+  exitTime: "",
+  fills: [],
+  tagIds: [],
+  images: []
 });
 
 const defaultLoginState = (): LoginState => ({
   email: "",
-  password: ""
+  password: "",
+  passwordConfirmation: ""
 });
 
+const IDLE_SYNC_STATE: SyncState = {
+  isOnline: true,
+  isSyncing: false,
+  pendingCount: 0,
+  conflictCount: 0,
+  lastError: ""
+};
+
+const subscribeToSync = (listener: () => void) =>
+  tradeSync?.subscribe(listener) ?? (() => {});
+
+const getSyncState = () => tradeSync?.getSyncState() ?? IDLE_SYNC_STATE;
+
+const SYNC_STATUS_LABELS: Record<NonNullable<TradeEntry["syncStatus"]>, string> = {
+  synced: "同期済み",
+  pending: "同期待ち",
+  conflict: "競合"
+};
+
+const sortTags = (list: Tag[]) =>
+  [...list].sort((a, b) => a.name.localeCompare(b.name, "ja"));
+
 const formatCurrency = (value: number) =>
   `${new Intl.NumberFormat("ja-JP", { maximumFractionDigits: 0 }).format(
     value
   )}円`;
 
+const winRateFormatter = new Intl.NumberFormat("ja-JP", {
+  style: "percent",
+  maximumFractionDigits: 1
+});
+
+const compareCurrency = (value: number, signed?: boolean) =>
+  `${signed && value > 0 ? "+" : ""}${formatCurrency(value)}`;
+
+const compareTradeCount = (value: number, signed?: boolean) =>
+  `${signed && value > 0 ? "+" : ""}${value}件`;
+
+const compareWinRate = (value: number, signed?: boolean) =>
+  signed
+    ? `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)}pt`
+    : winRateFormatter.format(value);
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat("ja-JP", { maximumFractionDigits: 2 }).format(value);
+
+const formatSignedPercent = (value: number) =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "percent",
+    maximumFractionDigits: 2,
+    signDisplay: "exceptZero"
+  }).format(value);
+
+/** Live entries for a query's ids, skipping ones trashed or purged since. */
+const liveEntriesOf = (
+  ids: string[] | undefined,
+  byId: Map<string, TradeEntry>
+) =>
+  (ids ?? []).flatMap((id) => {
+    const entry = byId.get(id);
+    return entry && !entry.deletedAt ? [entry] : [];
+  });
+
+// Storage objects are removed only here, once the entry is gone for good.
+const purgeEntry = async (entry: TradeEntry) => {
+  await tradeRepository.deleteTrade(entry.id);
+  await Promise.all(
+    entry.imagePaths.map((path) => tradeRepository.removeImage(path))
+  );
+};
+
 function App() {
-  const imageInputRef = useRef<HTMLInputElement | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [entries, setEntries] = useState<TradeEntry[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [weekdayFilter, setWeekdayFilter] = useState<WeekdayFilter>("all");
-  const [summaryRange, setSummaryRange] = useState<SummaryRange>("daily");
-  const [currentView, setCurrentView] = useState<AppView>("dashboard");
+  // Every entry fetched so far, trashed ones included. Queries hold only
+  // ids into it, so a saved edit shows everywhere before they refetch.
+  const [loadedEntries, setLoadedEntries] = useState<TradeEntry[]>([]);
+  // Bumped after every write; each query refetches when it changes.
+  const [dataVersion, setDataVersion] = useState(0);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [summaryOffset, setSummaryOffset] = useState(0);
+  const [customRange, setCustomRange] = useState<DateRange>(() => ({
+    from: todayString(),
+    to: todayString()
+  }));
+  const [isComparing, setIsComparing] = useState(false);
   const [formState, setFormState] = useState<FormState>(() =>
     defaultFormState()
   );
-  const [imageFile, setImageFile] = useState<File | null>(null);
   const [formError, setFormError] = useState("");
-  const [loadError, setLoadError] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loginState, setLoginState] = useState<LoginState>(() =>
     defaultLoginState()
   );
   const [isLoggingIn, setIsLoggingIn] = useState(false);
-  const [loginError, setLoginError] = useState("");
-  const [calendarMonth, setCalendarMonth] = useState(() => {
-    const now = new Date();
-    return new Date(now.getFullYear(), now.getMonth(), 1);
-  });
+  const [loginError, setLoginError] = useState(() => readAuthRedirectError());
+  const [loginNotice, setLoginNotice] = useState("");
+  const [loginMode, setLoginMode] = useState<LoginMode>("password");
+  const [calendarMode, setCalendarMode] = useState<CalendarMode>("month");
+  const [selectedCalendarDate, setSelectedCalendarDate] = useState<
+    string | null
+  >(null);
+  const [selectedTicker, setSelectedTicker] = useState<string | null>(null);
   const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
   const [editDraft, setEditDraft] = useState<EditEntryDraft | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
   const [editError, setEditError] = useState("");
   const [imageViewer, setImageViewer] = useState<ImageViewerState | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [undoTrashId, setUndoTrashId] = useState<string | null>(null);
+  // Entries changed by other tabs or devices while a modal was open.
+  const [remoteChangeIds, setRemoteChangeIds] = useState<string[]>([]);
+  const syncState = useSyncExternalStore(subscribeToSync, getSyncState);
+  const location = useSyncExternalStore(
+    subscribeToLocation,
+    getLocationSnapshot
+  );
+  const [pathname, search = ""] = location.split("?");
+  const route = useMemo(() => parseRoute(pathname), [pathname]);
+  const currentView = route.view;
+  // The URL is the source of truth for the list filters, so back/forward
+  // and shared links restore them.
+  const listQuery = useMemo(() => parseListQuery(search), [search]);
+  const { summaryRange, weekdayFilter, searchTerm } = listQuery;
+  const dashboardSearchRef = useRef("");
+  const redirectAfterLoginRef = useRef<string | null>(null);
+  const loadedById = useMemo(
+    () => new Map(loadedEntries.map((entry) => [entry.id, entry])),
+    [loadedEntries]
+  );
+
+  const mergeEntries = useCallback((loaded: TradeEntry[]) => {
+    setLoadedEntries((prev) => {
+      const byId = new Map(prev.map((entry) => [entry.id, entry]));
+      loaded.forEach((entry) => byId.set(entry.id, entry));
+      return [...byId.values()];
+    });
+  }, []);
+
+  const forgetEntry = (id: string) => {
+    setLoadedEntries((prev) => prev.filter((entry) => entry.id !== id));
+  };
+
+  const invalidateQueries = useCallback(
+    () => setDataVersion((prev) => prev + 1),
+    []
+  );
+
+  const isModalOpen = Boolean(editDraft) || Boolean(imageViewer);
+  const loadedByIdRef = useRef(loadedById);
+  const isModalOpenRef = useRef(isModalOpen);
+  useEffect(() => {
+    loadedByIdRef.current = loadedById;
+    isModalOpenRef.current = isModalOpen;
+    if (!isModalOpen) {
+      setRemoteChangeIds([]);
+    }
+  }, [loadedById, isModalOpen]);
+
+  const fetchIds = useCallback(
+    async (request: Promise<TradePage>) => {
+      const page = await request;
+      mergeEntries(page.entries);
+      return { ids: page.entries.map((entry) => entry.id), total: page.total };
+    },
+    [mergeEntries]
+  );
+
+  useEffect(() => {
+    if (currentView === "dashboard") {
+      dashboardSearchRef.current = search ? `?${search}` : "";
+    }
+  }, [currentView, search]);
+
+  const navigateTo = (next: AppRoute) => {
+    navigate(
+      routeHref(
+        next,
+        next.view === "dashboard" ? dashboardSearchRef.current : ""
+      )
+    );
+  };
+
+  /** Any filter change goes back to the first page unless it sets one. */
+  const updateListQuery = (
+    patch: Partial<ListQuery>,
+    { replace = false } = {}
+  ) => {
+    navigate(
+      routeHref(
+        { view: "dashboard" },
+        buildListQuery({ ...listQuery, currentPage: 1, ...patch })
+      ),
+      { replace }
+    );
+  };
 
   useEffect(() => {
     const initSession = async () => {
@@ -117,8 +377,13 @@ function App() {
 
     const {
       data: { subscription }
-    } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+    } = supabase.auth.onAuthStateChange((event, nextSession) => {
       setSession(nextSession);
+      // The reset email link signs in with a recovery session; ask for the
+      // new password before anything else.
+      if (event === "PASSWORD_RECOVERY") {
+        navigate(routeHref({ view: "resetPassword" }), { replace: true });
+      }
     });
 
     return () => {
@@ -126,99 +391,161 @@ function App() {
     };
   }, []);
 
-  const isLoggedIn = Boolean(session?.user);
+  const userId =
+    session?.user?.id ?? (storageMode === "local" ? LOCAL_USER_ID : null);
+  const isLoggedIn = Boolean(userId);
 
   useEffect(() => {
     if (isLoading) {
       return;
     }
 
-    if (!isLoggedIn) {
-      setCurrentView("login");
-    } else if (currentView === "login") {
-      setCurrentView("dashboard");
+    if (!isLoggedIn && currentView !== "login") {
+      // Come back to a bookmarked trade or filter after signing in. An
+      // expired reset link lands here without a session; start over.
+      redirectAfterLoginRef.current =
+        currentView === "resetPassword" ? null : getLocationSnapshot();
+      navigate(routeHref({ view: "login" }), { replace: true });
+    } else if (isLoggedIn && currentView === "login") {
+      navigate(
+        redirectAfterLoginRef.current ?? routeHref({ view: "dashboard" }),
+        { replace: true }
+      );
+      redirectAfterLoginRef.current = null;
     }
   }, [currentView, isLoading, isLoggedIn]);
 
   const resetForm = useCallback(() => {
-    setFormState(defaultFormState());
-    setImageFile(null);
+    setFormState((prev) => {
+      releaseImageDrafts(prev.images);
+      return defaultFormState();
+    });
     setFormError("");
-    if (imageInputRef.current) {
-      imageInputRef.current.value = "";
-    }
   }, []);
 
-  const applyImageUrl = useCallback(async (entry: TradeEntry) => {
-    if (!entry.imagePath) {
-      return entry;
+  // Entries past the trash retention period are purged once per sign-in.
+  useEffect(() => {
+    if (!userId) {
+      return;
     }
 
-    const { data, error } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .createSignedUrl(entry.imagePath, 60 * 60);
-
-    if (error || !data?.signedUrl) {
-      console.warn("Failed to generate image URL", error);
-      return entry;
-    }
+    let isCancelled = false;
+    const purgeExpiredTrash = async () => {
+      const { entries: trashed } = await tradeRepository.queryTrades(userId, {
+        trashed: true
+      });
+      let purgedCount = 0;
+      for (const entry of trashed.filter((candidate) => isPurgeDue(candidate))) {
+        try {
+          await purgeEntry(entry);
+          purgedCount += 1;
+        } catch (error) {
+          console.warn("Failed to purge expired trash:", error);
+        }
+      }
+      if (purgedCount && !isCancelled) {
+        invalidateQueries();
+      }
+    };
+    purgeExpiredTrash().catch((error) => {
+      console.warn("Failed to load the trash:", error);
+    });
 
-    return { ...entry, imageUrl: data.signedUrl };
-  }, []);
+    return () => {
+      isCancelled = true;
+    };
+  }, [invalidateQueries, userId]);
 
-  const loadEntries = useCallback(async () => {
-    if (!session?.user) {
-      setEntries([]);
-      setIsLoading(false);
+  useEffect(() => {
+    if (!userId) {
+      setTags([]);
       return;
     }
 
-    setIsLoading(true);
-    setLoadError("");
+    let isCancelled = false;
+    tradeRepository
+      .listTags(userId)
+      .then((loaded) => {
+        if (!isCancelled) {
+          setTags(loaded);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load tags:", error);
+      });
 
-    const { data, error } = await supabase
-      .from("trades")
-      .select(
-        "id, user_id, trade_date, ticker, ticker_name, realized_profit, reason, reflection, image_path, created_at, updated_at"
-      )
-      .eq("user_id", session.user.id)
-      .order("trade_date", { ascending: false });
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId]);
 
-    if (error) {
-      console.error("Failed to fetch trades:", error);
-      setLoadError(
-        "取引データの取得に失敗しました。しばらくしてから再度お試しください。"
-      );
-      setEntries([]);
-      setIsLoading(false);
+  // Writes from other tabs and devices merge into the loaded entries. Echoes
+  // of this tab's own writes match the copy already held and are skipped.
+  useEffect(() => {
+    if (!userId) {
       return;
     }
 
-    const mapped = data.map<TradeEntry>((row) => ({
-      id: row.id,
-      userId: row.user_id,
-      tradeDate: row.trade_date,
-      ticker: row.ticker,
-      tickerName: row.ticker_name ?? "",
-      realizedProfit: row.realized_profit ?? null,
-      reason: row.reason ?? null,
-      reflection: row.reflection ?? null,
-      imagePath: row.image_path ?? null,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at
-    }));
-
-    const withSignedUrls = await Promise.all(mapped.map(applyImageUrl));
-
-    setEntries(withSignedUrls);
-    setIsLoading(false);
-  }, [applyImageUrl, session?.user]);
+    return tradeRepository.subscribeToChanges(userId, (change) => {
+      const tradeId =
+        change.kind === "delete" ? change.tradeId : change.entry.id;
+      const known = loadedByIdRef.current.get(tradeId);
+      if (change.kind === "upsert") {
+        if (known?.updatedAt === change.entry.updatedAt) {
+          return;
+        }
+        mergeEntries([change.entry]);
+      } else if (known) {
+        setLoadedEntries((prev) =>
+          prev.filter((entry) => entry.id !== tradeId)
+        );
+      }
+      // Totals and pages may include entries that were never loaded.
+      invalidateQueries();
+      if (isModalOpenRef.current && (known || change.kind === "upsert")) {
+        setRemoteChangeIds((prev) =>
+          prev.includes(tradeId) ? prev : [...prev, tradeId]
+        );
+      }
+    });
+  }, [invalidateQueries, mergeEntries, userId]);
 
+  // Replays change sync badges and server timestamps, so refetch once the
+  // outbox counts settle. Queries themselves start a replay, so an attempt
+  // that changes nothing must not trigger another round.
+  const syncCountsRef = useRef(
+    `${syncState.pendingCount}/${syncState.conflictCount}`
+  );
   useEffect(() => {
-    if (session?.user) {
-      loadEntries();
+    const counts = `${syncState.pendingCount}/${syncState.conflictCount}`;
+    if (syncState.isSyncing || counts === syncCountsRef.current) {
+      return;
     }
-  }, [loadEntries, session?.user]);
+    syncCountsRef.current = counts;
+    invalidateQueries();
+  }, [
+    invalidateQueries,
+    syncState.isSyncing,
+    syncState.pendingCount,
+    syncState.conflictCount
+  ]);
+
+  const handleResolveConflict = async (
+    entryId: string,
+    resolution: "local" | "server"
+  ) => {
+    if (!tradeSync) {
+      return;
+    }
+    try {
+      await tradeSync.resolveConflict(entryId, resolution);
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "競合の解決に失敗しました。"
+      );
+    }
+    invalidateQueries();
+  };
 
   const handleInputChange = (
     event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -227,106 +554,84 @@ function App() {
     setFormState((prev) => ({ ...prev, [name]: value }));
   };
 
-  const handleImageChange = (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0] ?? null;
-    setImageFile(file);
+  const handleFillsChange = (fills: FillDraft[]) => {
+    setFormState((prev) => ({ ...prev, fills }));
   };
 
-  const uploadImageIfNeeded = async (userId: string) => {
-    if (!imageFile) {
-      return { imagePath: null, previewUrl: undefined as string | undefined };
-    }
+  const handleEditFillsChange = (fills: FillDraft[]) => {
+    setEditDraft((prev) => (prev ? { ...prev, fills } : prev));
+  };
 
-    const extension = imageFile.name.split(".").pop()?.toLowerCase() || "png";
-    const randomId = (
-      globalThis.crypto?.randomUUID?.() ??
-      `${Date.now()}-${Math.random().toString(16).slice(2)}`
-    ).replace(/[^a-zA-Z0-9-]/g, "");
-    const path = `${userId}/${randomId}.${extension}`;
-
-    const { error } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .upload(path, imageFile, {
-        cacheControl: "3600",
-        upsert: false
-      });
+  const handleTagsChange = (tagIds: string[]) => {
+    setFormState((prev) => ({ ...prev, tagIds }));
+  };
 
-    if (error) {
-      throw new Error(`画像のアップロードに失敗しました: ${error.message}`);
-    }
+  const handleEditTagsChange = (tagIds: string[]) => {
+    setEditDraft((prev) => (prev ? { ...prev, tagIds } : prev));
+  };
 
-    const { data } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .createSignedUrl(path, 60 * 60);
+  const handleImagesChange = (images: ImageDraft[]) => {
+    setFormState((prev) => ({ ...prev, images }));
+  };
+
+  const handleEditImagesChange = (images: ImageDraft[]) => {
+    setEditDraft((prev) => (prev ? { ...prev, images } : prev));
+  };
 
-    return { imagePath: path, previewUrl: data?.signedUrl };
+  // Uploads new files in display order. If one fails, the ones already
+  // uploaded in this call are removed again so nothing is orphaned.
+  const uploadImageDrafts = async (ownerId: string, drafts: ImageDraft[]) => {
+    const paths: string[] = [];
+    const uploaded: string[] = [];
+    try {
+      for (const draft of drafts) {
+        if (draft.path) {
+          paths.push(draft.path);
+        } else if (draft.file) {
+          const path = await tradeRepository.uploadImage(ownerId, draft.file);
+          uploaded.push(path);
+          paths.push(path);
+        }
+      }
+    } catch (error) {
+      await Promise.all(
+        uploaded.map((path) => tradeRepository.removeImage(path))
+      );
+      throw error;
+    }
+    return paths;
   };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
-    if (!session?.user) {
+    if (!userId) {
       setFormError("投稿するにはログインが必要です。");
       return;
     }
 
-    const trimmedTicker = formState.ticker.trim();
-    const trimmedName = formState.tickerName.trim();
-
-    const hasProfitInput = formState.realizedProfit.trim() !== "";
-    const profitCandidate = Number(formState.realizedProfit);
-    const profitValue =
-      hasProfitInput && Number.isFinite(profitCandidate)
-        ? profitCandidate
-        : null;
+    const parsed = parseTradeForm(formState, todayString());
+    if (!parsed.fields) {
+      setFormError(parsed.error);
+      return;
+    }
 
     setIsSubmitting(true);
     setFormError("");
 
     try {
-      const { imagePath, previewUrl } = await uploadImageIfNeeded(
-        session.user.id
-      );
-
-      const { data, error } = await supabase
-        .from("trades")
-        .insert({
-          user_id: session.user.id,
-          trade_date: formState.tradeDate,
-          ticker: trimmedTicker.toUpperCase(),
-          ticker_name: trimmedName || null,
-          realized_profit: profitValue,
-          reason: formState.reason.trim() || null,
-          reflection: formState.reflection.trim() || null,
-          image_path: imagePath
-        })
-        .select(
-          "id, user_id, trade_date, ticker, ticker_name, realized_profit, reason, reflection, image_path, created_at, updated_at"
-        )
-        .single();
-
-      if (error || !data) {
-        throw new Error(error?.message ?? "取引の保存に失敗しました。");
-      }
+      const imagePaths = await uploadImageDrafts(userId, formState.images);
 
-      const entry: TradeEntry = {
-        id: data.id,
-        userId: data.user_id,
-        tradeDate: data.trade_date,
-        ticker: data.ticker,
-        tickerName: data.ticker_name ?? "",
-        realizedProfit: data.realized_profit ?? null,
-        reason: data.reason ?? null,
-        reflection: data.reflection ?? null,
-        imagePath: data.image_path ?? null,
-        imageUrl: previewUrl,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at
-      };
-
-      setEntries((prev) => [entry, ...prev]);
+      const created = await tradeRepository.createTrade(userId, {
+        ...parsed.fields,
+        tagIds: formState.tagIds,
+        imagePaths,
+        imageAnnotations: {}
+      });
+      mergeEntries([created]);
+      invalidateQueries();
       resetForm();
-      setCurrentView("dashboard");
+      navigateTo({ view: "dashboard" });
     } catch (error) {
       console.error(error);
       setFormError(
@@ -337,24 +642,80 @@ function App() {
     }
   };
 
+  const handleImport = async (inputs: TradeInput[]) => {
+    if (!userId) {
+      throw new Error("取り込むにはログインが必要です。");
+    }
+
+    const created = await tradeRepository.createTrades(userId, inputs);
+    mergeEntries(created);
+    invalidateQueries();
+    navigateTo({ view: "dashboard" });
+  };
+
+  const handleCreateTag = async (name: string) => {
+    if (!userId) {
+      throw new Error("タグを追加するにはログインが必要です。");
+    }
+    const created = await tradeRepository.createTag(userId, name);
+    setTags((prev) => sortTags([...prev, created]));
+  };
+
+  const handleRenameTag = async (id: string, name: string) => {
+    const renamed = await tradeRepository.renameTag(id, name);
+    setTags((prev) =>
+      sortTags(prev.map((tag) => (tag.id === id ? renamed : tag)))
+    );
+  };
+
+  // Entries keep the deleted id; unknown ids are simply not rendered.
+  const handleDeleteTag = async (id: string) => {
+    await tradeRepository.deleteTag(id);
+    setTags((prev) => prev.filter((tag) => tag.id !== id));
+    setTagFilter((prev) => (prev === id ? null : prev));
+  };
+
   const handleLoginChange = (event: ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target;
     setLoginState((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleLoginModeChange = (mode: LoginMode) => {
+    setLoginMode(mode);
+    setLoginError("");
+    setLoginNotice("");
+    setLoginState((prev) => ({ ...defaultLoginState(), email: prev.email }));
+  };
+
   const openEditEntry = (entry: TradeEntry) => {
     setEditingEntryId(entry.id);
     setEditDraft({
       id: entry.id,
+      ticker: entry.ticker,
+      tickerName: entry.tickerName ?? "",
+      tradeDate: entry.tradeDate,
       reason: entry.reason ?? "",
       reflection: entry.reflection ?? "",
-      realizedProfitInput:
-        entry.realizedProfit !== null ? String(entry.realizedProfit) : ""
+      realizedProfit:
+        entry.realizedProfit !== null ? String(entry.realizedProfit) : "",
+      side: entry.side ?? "",
+      entryPrice: entry.entryPrice !== null ? String(entry.entryPrice) : "",
+      exitPrice: entry.exitPrice !== null ? String(entry.exitPrice) : "",
+      quantity: entry.quantity !== null ? String(entry.quantity) : "",
+      commission: entry.commission !== null ? String(entry.commission) : "",
+      entryTime: entry.entryTime ?? "",
+      exitTime: entry.exitTime ?? "",
+      fills: entry.fills.map(toFillDraft),
+      tagIds: entry.tagIds,
+      images: toImageDrafts(entry)
     });
     setEditError("");
   };
 
   const closeEditEntry = () => {
+    if (editDraft) {
+      releaseImageDrafts(editDraft.images);
+    }
     setEditingEntryId(null);
     setEditDraft(null);
     setEditError("");
@@ -368,98 +729,186 @@ function App() {
     setEditDraft((prev) => (prev ? { ...prev, [name]: value } : prev));
   };
 
-  const handleDeleteEntry = async (
-    entryId: string,
-    imagePath: string | null
-  ) => {
-    const confirmed = window.confirm("この取引日記を削除しますか？");
-    if (!confirmed) {
-      return;
-    }
+  const storeUpdatedEntry = (updated: TradeEntry) => {
+    mergeEntries([updated]);
+    invalidateQueries();
+  };
 
-    const { error } = await supabase.from("trades").delete().eq("id", entryId);
-    if (error) {
-      console.error("Failed to delete trade:", error);
-      alert("削除に失敗しました。しばらくしてから再度お試しください。");
-      return;
+  // Deleting moves the entry to the trash; the toast offers an undo.
+  const handleDeleteEntry = async (entry: TradeEntry) => {
+    try {
+      const trashed = await tradeRepository.updateTrade(entry.id, {
+        deletedAt: new Date().toISOString()
+      });
+      storeUpdatedEntry(trashed);
+    } catch (error) {
+      alert(
+        error instanceof Error
+          ? error.message
+          : "削除に失敗しました。しばらくしてから再度お試しください。"
+      );
+      return false;
     }
 
-    if (imagePath) {
-      const { error: storageError } = await supabase.storage
-        .from(STORAGE_BUCKET)
-        .remove([imagePath]);
-      if (storageError) {
-        console.warn("Failed to delete image from storage:", storageError);
+    setUndoTrashId(entry.id);
+    return true;
+  };
+
+  const handleRestoreEntry = async (entry: TradeEntry) => {
+    const restored = await tradeRepository.updateTrade(entry.id, {
+      deletedAt: null
+    });
+    storeUpdatedEntry(restored);
+    setUndoTrashId((prev) => (prev === entry.id ? null : prev));
+  };
+
+  const handlePurgeEntries = async (targets: TradeEntry[]) => {
+    try {
+      for (const entry of targets) {
+        await purgeEntry(entry);
+        forgetEntry(entry.id);
       }
+    } finally {
+      invalidateQueries();
     }
+  };
+
+  const dismissUndoToast = useCallback(() => setUndoTrashId(null), []);
 
-    setEntries((prev) => prev.filter((entry) => entry.id !== entryId));
+  const undoCandidate = undoTrashId ? loadedById.get(undoTrashId) : undefined;
+  const undoTrashEntry = undoCandidate?.deletedAt ? undoCandidate : null;
+
+  const handleUndoTrash = async () => {
+    if (!undoTrashEntry) {
+      return;
+    }
+    try {
+      await handleRestoreEntry(undoTrashEntry);
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "元に戻せませんでした。"
+      );
+    }
   };
 
-  const openImageViewer = (src: string, alt: string) => {
-    setImageViewer({ src, alt });
+  const openImageViewer = (entry: TradeEntry, index = 0) => {
+    setImageViewer({ entryId: entry.id, index });
   };
 
   const closeImageViewer = () => {
     setImageViewer(null);
   };
 
-  const handleSaveEdit = async () => {
-    if (!editingEntryId || !editDraft) {
+  const viewerEntry = imageViewer
+    ? liveEntriesOf([imageViewer.entryId], loadedById)[0] ?? null
+    : null;
+
+  // Errors propagate to the annotation editor, which shows them in place.
+  const handleSaveAnnotations = async (
+    entry: TradeEntry,
+    path: string,
+    shapes: AnnotationShape[]
+  ) => {
+    const updated = await tradeRepository.updateTrade(entry.id, {
+      imageAnnotations: pruneAnnotations(
+        { ...entry.imageAnnotations, [path]: shapes },
+        entry.imagePaths
+      )
+    });
+    storeUpdatedEntry(updated);
+  };
+
+  const loadRevisions = useCallback(
+    (tradeId: string) => tradeRepository.listRevisions(tradeId),
+    []
+  );
+
+  // History is best-effort: a failed write must not undo a saved edit.
+  const recordRevision = async (before: TradeEntry, after: TradeEntry) => {
+    const snapshot = snapshotOf(before);
+    if (!diffSnapshots(snapshot, snapshotOf(after), tagsById).length) {
       return;
     }
+    try {
+      await tradeRepository.createRevision(before.userId, before.id, snapshot);
+    } catch (error) {
+      console.warn("Failed to record revision:", error);
+    }
+  };
 
-    const trimmedReason = editDraft.reason.trim();
-    const trimmedReflection = editDraft.reflection.trim();
-    const trimmedProfit = editDraft.realizedProfitInput.trim();
+  const handleRestoreRevision = async (
+    entry: TradeEntry,
+    revision: TradeRevision
+  ) => {
+    const restored = await tradeRepository.updateTrade(
+      entry.id,
+      revision.snapshot
+    );
+    await recordRevision(entry, restored);
+    storeUpdatedEntry(restored);
+  };
 
-    let profitValue: number | null = null;
-    if (trimmedProfit) {
-      const parsed = Number(trimmedProfit);
-      if (!Number.isFinite(parsed)) {
-        setEditError("損益は数値で入力してください。");
-        return;
-      }
-      profitValue = parsed;
+  const handleSaveEdit = async () => {
+    const current = editingEntryId
+      ? liveEntriesOf([editingEntryId], loadedById)[0]
+      : undefined;
+    if (!userId || !current || !editDraft) {
+      return;
+    }
+
+    const parsed = parseTradeForm(editDraft, todayString());
+    if (!parsed.fields) {
+      setEditError(parsed.error);
+      return;
     }
 
     setIsUpdating(true);
     setEditError("");
 
-    const { data, error } = await supabase
-      .from("trades")
-      .update({
-        reason: trimmedReason || null,
-        reflection: trimmedReflection || null,
-        realized_profit: profitValue
-      })
-      .eq("id", editingEntryId)
-      .select(
-        "id, user_id, trade_date, ticker, ticker_name, realized_profit, reason, reflection, image_path, created_at, updated_at"
-      )
-      .single();
-
-    if (error || !data) {
-      console.error("Failed to update trade:", error);
-      setEditError(error?.message ?? "更新に失敗しました。");
+    try {
+      const imagePaths = await uploadImageDrafts(userId, editDraft.images);
+      let updated: TradeEntry;
+      try {
+        // Only edited fields are sent, so a queued offline edit does not
+        // overwrite fields changed on another device in the meantime.
+        const changes = changedFields(current, {
+          ...parsed.fields,
+          tagIds: editDraft.tagIds,
+          imagePaths,
+          imageAnnotations: pruneAnnotations(
+            current.imageAnnotations,
+            imagePaths
+          )
+        });
+        updated = Object.keys(changes).length
+          ? await tradeRepository.updateTrade(current.id, changes)
+          : current;
+      } catch (error) {
+        // The entry still points at its old images; drop the fresh uploads.
+        await Promise.all(
+          imagePaths
+            .filter((path) => !current.imagePaths.includes(path))
+            .map((path) => tradeRepository.removeImage(path))
+        );
+        throw error;
+      }
+      await recordRevision(current, updated);
+      // Replaced or removed screenshots are deleted only once the entry no
+      // longer references them.
+      await Promise.all(
+        current.imagePaths
+          .filter((path) => !imagePaths.includes(path))
+          .map((path) => tradeRepository.removeImage(path))
+      );
+      storeUpdatedEntry(updated);
+    } catch (error) {
+      setEditError(
+        error instanceof Error ? error.message : "更新に失敗しました。"
+      );
       setIsUpdating(false);
       return;
     }
 
-    setEntries((prev) =>
-      prev.map((entry) =>
-        entry.id === editingEntryId
-          ? {
-              ...entry,
-              reason: data.reason ?? null,
-              reflection: data.reflection ?? null,
-              realizedProfit: data.realized_profit ?? null,
-              updatedAt: data.updated_at
-            }
-          : entry
-      )
-    );
-
     closeEditEntry();
   };
 
@@ -467,49 +916,107 @@ function App() {
     event.preventDefault();
 
     const email = loginState.email.trim();
-    const password = loginState.password;
-
-    if (!email || !password) {
-      setLoginError("メールアドレスとパスワードを入力してください。");
+    const { password, passwordConfirmation } = loginState;
+    const needsPassword = loginMode === "password" || loginMode === "signUp";
+
+    if (!email || (needsPassword && !password)) {
+      setLoginError(
+        needsPassword
+          ? "メールアドレスとパスワードを入力してください。"
+          : "メールアドレスを入力してください。"
+      );
       return;
     }
+    if (loginMode === "signUp") {
+      const invalid = validateNewPassword(password, passwordConfirmation);
+      if (invalid) {
+        setLoginError(invalid);
+        return;
+      }
+    }
 
     setIsLoggingIn(true);
     setLoginError("");
+    setLoginNotice("");
 
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password
-    });
-
-    if (error) {
-      console.error("Login failed:", error);
-      setLoginError(error.message || "ログインに失敗しました。");
+    // Signing in is finished by onAuthStateChange; the other modes send an
+    // email and wait for its link to be opened.
+    try {
+      if (loginMode === "password") {
+        await signInWithPassword(email, password);
+      } else if (loginMode === "signUp") {
+        if (await signUp(email, password)) {
+          setLoginNotice(
+            "確認メールを送信しました。メール内のリンクを開いて登録を完了してください。"
+          );
+        }
+      } else if (loginMode === "magicLink") {
+        await sendMagicLink(email);
+        setLoginNotice(
+          "ログイン用のリンクを送信しました。メールを確認してください。"
+        );
+      } else {
+        await sendPasswordReset(email);
+        setLoginNotice(
+          "再設定用のリンクを送信しました。メールを確認してください。"
+        );
+      }
+    } catch (error) {
+      setLoginError(
+        error instanceof Error ? error.message : "ログインに失敗しました。"
+      );
       setIsLoggingIn(false);
       return;
     }
 
-    setLoginState(defaultLoginState());
+    setLoginState((prev) => ({ ...defaultLoginState(), email: prev.email }));
     setIsLoggingIn(false);
-    setCurrentView("dashboard");
-    await loadEntries();
+  };
+
+  const handleResetPassword = async (password: string) => {
+    await updatePassword(password);
+    navigate(routeHref({ view: "dashboard" }), { replace: true });
+    window.alert("パスワードを再設定しました。");
+  };
+
+  // In the year view the arrows step a whole year, keeping the month.
+  const calendarStep = calendarMode === "year" ? 12 : 1;
+
+  const showCalendarMonth = (month: Date | null) => {
+    setSelectedCalendarDate(null);
+    navigateTo({
+      view: "calendar",
+      month: month && toDateKey(month).slice(0, 7)
+    });
   };
 
   const goToPrevMonth = () => {
-    setCalendarMonth(
-      (prev) => new Date(prev.getFullYear(), prev.getMonth() - 1, 1)
+    showCalendarMonth(
+      new Date(
+        calendarMonth.getFullYear(),
+        calendarMonth.getMonth() - calendarStep,
+        1
+      )
     );
   };
 
   const goToNextMonth = () => {
-    setCalendarMonth(
-      (prev) => new Date(prev.getFullYear(), prev.getMonth() + 1, 1)
+    showCalendarMonth(
+      new Date(
+        calendarMonth.getFullYear(),
+        calendarMonth.getMonth() + calendarStep,
+        1
+      )
     );
   };
 
+  const openCalendarMonth = (month: number) => {
+    showCalendarMonth(new Date(calendarMonth.getFullYear(), month - 1, 1));
+    setCalendarMode("month");
+  };
+
   const goToCurrentMonth = () => {
-    const now = new Date();
-    setCalendarMonth(new Date(now.getFullYear(), now.getMonth(), 1));
+    showCalendarMonth(null);
   };
 
   const handleLogout = async () => {
@@ -518,151 +1025,368 @@ function App() {
       console.error("Failed to logout:", error);
       return;
     }
-    setEntries([]);
+    setLoadedEntries([]);
+    imageUrlCache.clear();
+    setTags([]);
+    setTagFilter(null);
     resetForm();
     setLoginState(defaultLoginState());
-    goToCurrentMonth();
-    setCurrentView("login");
+    setLoginMode("password");
+    setLoginNotice("");
+    setSelectedCalendarDate(null);
+    setSelectedTicker(null);
+    redirectAfterLoginRef.current = null;
+    navigate(routeHref({ view: "login" }), { replace: true });
     setIsLoading(false);
   };
 
   const openFormScreen = () => {
     resetForm();
-    setCurrentView("newEntry");
+    navigateTo({ view: "newEntry" });
   };
 
   const openCalendarScreen = () => {
-    setCurrentView("calendar");
+    navigateTo({ view: "calendar", month: null });
   };
 
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, summaryRange]);
+  const selectSummaryRange = (range: SummaryRange) => {
+    setSummaryOffset(0);
+    updateListQuery({ summaryRange: range });
+  };
+
+  // Offset, custom range and tag filter are not in the URL, but they still
+  // change the list, so they reset the page in place.
+  const stepSummaryPeriod = (offset: number) => {
+    setSummaryOffset(offset);
+    updateListQuery({}, { replace: true });
+  };
+
+  const changeCustomRange = (field: keyof DateRange, value: string) => {
+    setCustomRange((prev) => ({ ...prev, [field]: value }));
+    updateListQuery({}, { replace: true });
+  };
+
+  const selectTagFilter = (id: string | null) => {
+    setTagFilter(id);
+    updateListQuery({}, { replace: true });
+  };
+
+  const summaryPeriod = useMemo(
+    () => resolveSummaryPeriod(summaryRange, summaryOffset, customRange),
+    [summaryRange, summaryOffset, customRange]
+  );
+
+  const comparisonPeriod = useMemo(
+    () =>
+      isComparing
+        ? previousSummaryPeriod(summaryRange, summaryOffset, customRange)
+        : null,
+    [isComparing, summaryRange, summaryOffset, customRange]
+  );
+
+  const weekdays = useMemo(() => weekdaysOf(weekdayFilter), [weekdayFilter]);
+
+  // Period and weekday filters; the tag table leaves the tag filter out so it
+  // compares every tag within the same trades.
+  const analysisFilter = useMemo<TradeFilter>(
+    () => ({ from: summaryPeriod.from, to: summaryPeriod.to, weekdays }),
+    [summaryPeriod, weekdays]
+  );
 
-  const summaryEntries = useMemo(() => {
-    if (!entries.length) {
+  const summaryFilter = useMemo<TradeFilter>(
+    () => ({ ...analysisFilter, tagId: tagFilter }),
+    [analysisFilter, tagFilter]
+  );
+
+  const comparisonFilter = useMemo<TradeFilter | null>(
+    () =>
+      comparisonPeriod
+        ? {
+            from: comparisonPeriod.from,
+            to: comparisonPeriod.to,
+            weekdays,
+            tagId: tagFilter
+          }
+        : null,
+    [comparisonPeriod, weekdays, tagFilter]
+  );
+
+  const tagTotalsQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "dashboard"
+          ? () => tradeRepository.listTagTotals(userId, analysisFilter)
+          : null,
+      [userId, currentView, analysisFilter]
+    ),
+    dataVersion
+  );
+
+  const tagPerformances = useMemo(
+    () => summarizeByTag(tagTotalsQuery.data ?? [], tags),
+    [tagTotalsQuery.data, tags]
+  );
+
+  const tagsById = useMemo(
+    () => new Map(tags.map((tag) => [tag.id, tag])),
+    [tags]
+  );
+
+  const tradeQuery = useMemo(() => parseTradeQuery(searchTerm), [searchTerm]);
+
+  const historyFilter = useMemo<TradeListFilter>(
+    () => buildListFilter(summaryFilter, tradeQuery, tags),
+    [summaryFilter, tradeQuery, tags]
+  );
+
+  // Filled in from the response: a linked page past the end is clamped and
+  // fetched again.
+  const [historyTotal, setHistoryTotal] = useState<number | null>(null);
+  const totalPages = Math.max(1, Math.ceil((historyTotal ?? 0) / PAGE_SIZE));
+  // Clamped rather than rewritten so a linked page survives while loading.
+  const currentPage = Math.min(listQuery.currentPage, totalPages);
+
+  const historyQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "dashboard"
+          ? async () => {
+              const page = await fetchIds(
+                tradeRepository.queryTrades(userId, historyFilter, {
+                  offset: (currentPage - 1) * PAGE_SIZE,
+                  limit: PAGE_SIZE
+                })
+              );
+              setHistoryTotal(page.total);
+              return page;
+            }
+          : null,
+      [userId, currentView, historyFilter, currentPage, fetchIds]
+    ),
+    dataVersion
+  );
+
+  const paginatedEntries = useMemo(
+    () => liveEntriesOf(historyQuery.data?.ids, loadedById),
+    [historyQuery.data, loadedById]
+  );
+
+  const loadExportEntries = useCallback(async () => {
+    if (!userId) {
       return [];
     }
+    const { entries } = await tradeRepository.queryTrades(
+      userId,
+      historyFilter
+    );
+    return entries;
+  }, [userId, historyFilter]);
+
+  const summaryTotals = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "dashboard"
+          ? () => tradeRepository.listDailyTotals(userId, summaryFilter)
+          : null,
+      [userId, currentView, summaryFilter]
+    ),
+    dataVersion
+  );
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  const comparisonTotals = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "dashboard" && comparisonFilter
+          ? () => tradeRepository.listDailyTotals(userId, comparisonFilter)
+          : null,
+      [userId, currentView, comparisonFilter]
+    ),
+    dataVersion
+  );
 
-    let start: Date | null = null;
-    let end: Date | null = null;
+  const performanceQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "dashboard"
+          ? () => tradeRepository.getPerformance(userId, summaryFilter)
+          : null,
+      [userId, currentView, summaryFilter]
+    ),
+    dataVersion
+  );
 
-    switch (summaryRange) {
-      case "daily": {
-        start = new Date(today);
-        end = new Date(today);
-        break;
-      }
-      case "weekly": {
-        const sunday = new Date(today);
-        sunday.setDate(today.getDate() - today.getDay());
-        start = sunday;
-        const saturday = new Date(sunday);
-        saturday.setDate(sunday.getDate() + 6);
-        end = saturday;
-        break;
-      }
-      case "monthly": {
-        start = new Date(today.getFullYear(), today.getMonth(), 1);
-        end = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-        break;
-      }
-      case "yearly": {
-        start = new Date(today.getFullYear(), 0, 1);
-        end = new Date(today.getFullYear(), 11, 31);
-        break;
-      }
-      case "all":
-      default:
-        return entries;
+  const comparisonPerformanceQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "dashboard" && comparisonFilter
+          ? () => tradeRepository.getPerformance(userId, comparisonFilter)
+          : null,
+      [userId, currentView, comparisonFilter]
+    ),
+    dataVersion
+  );
+
+  const timingQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "dashboard"
+          ? () => tradeRepository.listTimingTotals(userId, summaryFilter)
+          : null,
+      [userId, currentView, summaryFilter]
+    ),
+    dataVersion
+  );
+
+  const calendarMonth = useMemo(() => {
+    if (route.view === "calendar" && route.month) {
+      const [year, month] = route.month.split("-").map(Number);
+      return new Date(year, month - 1, 1);
     }
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  }, [route]);
+
+  const calendarYear = calendarMonth.getFullYear();
+
+  // One request covers both the month grid and the year heatmap.
+  const calendarTotals = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "calendar"
+          ? () =>
+              tradeRepository.listDailyTotals(userId, {
+                from: `${calendarYear}-01-01`,
+                to: `${calendarYear}-12-31`
+              })
+          : null,
+      [userId, currentView, calendarYear]
+    ),
+    dataVersion
+  );
 
-    return entries.filter((entry) => {
-      const tradeDate = new Date(entry.tradeDate);
-      tradeDate.setHours(0, 0, 0, 0);
+  const calendarDayQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "calendar" && selectedCalendarDate
+          ? () =>
+              fetchIds(
+                tradeRepository.queryTrades(userId, {
+                  from: selectedCalendarDate,
+                  to: selectedCalendarDate
+                })
+              )
+          : null,
+      [userId, currentView, selectedCalendarDate, fetchIds]
+    ),
+    dataVersion
+  );
 
-      if (start && tradeDate < start) {
-        return false;
-      }
-      if (end && tradeDate > end) {
-        return false;
-      }
-      return true;
-    });
-  }, [entries, summaryRange]);
+  // The nav shows the trash count, so the trash is loaded on every screen.
+  const trashQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId
+          ? () =>
+              fetchIds(tradeRepository.queryTrades(userId, { trashed: true }))
+          : null,
+      [userId, fetchIds]
+    ),
+    dataVersion
+  );
 
-  const weekdayFilteredEntries = useMemo(() => {
-    if (weekdayFilter === "all") {
-      return summaryEntries;
-    }
+  const trashedEntries = useMemo(
+    () =>
+      (trashQuery.data?.ids ?? [])
+        .flatMap((id) => {
+          const entry = loadedById.get(id);
+          return entry?.deletedAt ? [entry] : [];
+        })
+        .sort((a, b) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? "")),
+    [trashQuery.data, loadedById]
+  );
 
-    return summaryEntries.filter((entry) => {
-      const day = new Date(entry.tradeDate).getDay();
-      if (weekdayFilter === "friSatSun") {
-        return day === 5 || day === 6 || day === 0;
-      }
-      return day === weekdayFilter;
-    });
-  }, [summaryEntries, weekdayFilter]);
-
-  const filteredEntries = useMemo(() => {
-    const normalized = searchTerm.trim().toLowerCase();
-    const sorted = [...weekdayFilteredEntries].sort((a, b) => {
-      const aTime = new Date(a.tradeDate).getTime();
-      const bTime = new Date(b.tradeDate).getTime();
-      return bTime - aTime;
-    });
+  const tickerTotalsQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "tickers"
+          ? () => tradeRepository.listTickerTotals(userId, {})
+          : null,
+      [userId, currentView]
+    ),
+    dataVersion
+  );
 
-    if (!normalized) {
-      return sorted;
-    }
+  const tickerHistoryQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && currentView === "tickers" && selectedTicker
+          ? () =>
+              fetchIds(
+                tradeRepository.queryTrades(userId, { ticker: selectedTicker })
+              )
+          : null,
+      [userId, currentView, selectedTicker, fetchIds]
+    ),
+    dataVersion
+  );
 
-    return sorted.filter((entry) =>
-      [entry.ticker, entry.tickerName].some((value) =>
-        value.toLowerCase().includes(normalized)
-      )
-    );
-  }, [weekdayFilteredEntries, searchTerm]);
+  const tickerHistoryEntries = useMemo(
+    () => liveEntriesOf(tickerHistoryQuery.data?.ids, loadedById),
+    [tickerHistoryQuery.data, loadedById]
+  );
 
-  const totalPages = Math.max(
-    1,
-    Math.ceil(filteredEntries.length / PAGE_SIZE) || 1
+  const loadImportCandidates = useCallback(
+    async (from: string, to: string) => {
+      if (!userId) {
+        return [];
+      }
+      const { entries } = await tradeRepository.queryTrades(userId, {
+        from,
+        to
+      });
+      return entries;
+    },
+    [userId]
   );
 
-  useEffect(() => {
-    setCurrentPage((prev) => (prev > totalPages ? totalPages : prev));
-  }, [totalPages]);
+  const routeTradeId = route.view === "trade" ? route.tradeId : null;
+
+  // Linked trades may not be on any loaded page yet.
+  const routeEntryQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        userId && routeTradeId
+          ? async () => {
+              const entry = await tradeRepository.getTrade(routeTradeId);
+              if (entry) {
+                mergeEntries([entry]);
+              }
+              return entry;
+            }
+          : null,
+      [userId, routeTradeId, mergeEntries]
+    )
+  );
 
-  const paginatedEntries = useMemo(() => {
-    const startIndex = (currentPage - 1) * PAGE_SIZE;
-    return filteredEntries.slice(startIndex, startIndex + PAGE_SIZE);
-  }, [filteredEntries, currentPage]);
+  const routeEntry = routeTradeId
+    ? liveEntriesOf([routeTradeId], loadedById)[0] ?? null
+    : null;
 
   const { calendarCells, monthSummary, calendarMonthLabel } = useMemo(() => {
     const startOfMonth = new Date(calendarMonth.getFullYear(), calendarMonth.getMonth(), 1);
     const endOfMonth = new Date(calendarMonth.getFullYear(), calendarMonth.getMonth() + 1, 0);
+    const monthPrefix = toDateKey(startOfMonth).slice(0, 7);
     const profitsByDate = new Map<string, number>();
-
-    entries.forEach((entry) => {
-      if (
-        entry.realizedProfit === null ||
-        !Number.isFinite(entry.realizedProfit)
-      ) {
-        return;
-      }
-      const tradeDate = new Date(entry.tradeDate);
-      if (
-        tradeDate.getFullYear() !== calendarMonth.getFullYear() ||
-        tradeDate.getMonth() !== calendarMonth.getMonth()
-      ) {
-        return;
-      }
-      const key = dateKey(tradeDate);
-      profitsByDate.set(key, (profitsByDate.get(key) ?? 0) + entry.realizedProfit);
-    });
+    const countsByDate = new Map<string, number>();
+
+    (calendarTotals.data ?? [])
+      .filter((day) => day.tradeDate.startsWith(monthPrefix))
+      .forEach((day) => {
+        countsByDate.set(day.tradeDate, day.tradeCount);
+        if (day.profitCount) {
+          profitsByDate.set(day.tradeDate, day.netProfit);
+        }
+      });
 
     let totalProfit = 0;
     let totalLoss = 0;
@@ -675,7 +1399,7 @@ function App() {
       }
     });
 
-    const todayKey = dateKey(new Date());
+    const todayKey = toDateKey(new Date());
 
     const cells: CalendarCell[] = [];
 
@@ -686,12 +1410,13 @@ function App() {
 
     for (let day = 1; day <= endOfMonth.getDate(); day += 1) {
       const currentDate = new Date(calendarMonth.getFullYear(), calendarMonth.getMonth(), day);
-      const key = dateKey(currentDate);
+      const key = toDateKey(currentDate);
       const profit = profitsByDate.has(key) ? profitsByDate.get(key)! : null;
       cells.push({
         key,
         day,
         profit,
+        tradeCount: countsByDate.get(key) ?? 0,
         isToday: key === todayKey
       });
     }
@@ -719,46 +1444,47 @@ function App() {
       monthSummary: summary,
       calendarMonthLabel: monthLabel
     };
-  }, [calendarMonth, entries]);
-
-  const analytics = useMemo(() => {
-    const totalTrades = weekdayFilteredEntries.length;
-    if (!totalTrades) {
-      return {
-        totalTrades: 0,
-        totalProfit: 0,
-        winRate: 0,
-        winSampleCount: 0
-      };
-    }
+  }, [calendarMonth, calendarTotals.data]);
 
-    let totalProfit = 0;
-    let winCount = 0;
-    let profitSamples = 0;
-
-    weekdayFilteredEntries.forEach((entry) => {
-      if (
-        entry.realizedProfit === null ||
-        !Number.isFinite(entry.realizedProfit)
-      ) {
-        return;
-      }
+  const yearHeatmap = useMemo(
+    () => buildYearHeatmap(calendarTotals.data ?? [], calendarYear),
+    [calendarTotals.data, calendarYear]
+  );
 
-      totalProfit += entry.realizedProfit;
-      profitSamples += 1;
+  const calendarDayEntries = useMemo(
+    () => liveEntriesOf(calendarDayQuery.data?.ids, loadedById),
+    [calendarDayQuery.data, loadedById]
+  );
 
-      if (entry.realizedProfit > 0) {
-        winCount += 1;
-      }
-    });
+  // Counts, P&L and win rate come from the daily totals; the other metrics
+  // from the performance aggregate of the same filter.
+  const analytics = useMemo(
+    () =>
+      performanceQuery.data && summaryTotals.data
+        ? summarizePerformance(
+            summarizeTotals(summaryTotals.data),
+            performanceQuery.data
+          )
+        : null,
+    [performanceQuery.data, summaryTotals.data]
+  );
 
-    return {
-      totalTrades,
-      totalProfit,
-      winRate: profitSamples ? winCount / profitSamples : 0,
-      winSampleCount: profitSamples
-    };
-  }, [weekdayFilteredEntries]);
+  // The previous period goes through the same weekday and tag filters.
+  const comparisonAnalytics = useMemo(
+    () =>
+      comparisonFilter && comparisonPerformanceQuery.data && comparisonTotals.data
+        ? summarizePerformance(
+            summarizeTotals(comparisonTotals.data),
+            comparisonPerformanceQuery.data
+          )
+        : null,
+    [comparisonFilter, comparisonPerformanceQuery.data, comparisonTotals.data]
+  );
+
+  const equityCurve = useMemo(
+    () => buildEquityCurve(summaryTotals.data ?? []),
+    [summaryTotals.data]
+  );
 
   return (
     <div className="app">
@@ -775,7 +1501,7 @@ function App() {
                 className={`hero-nav-button ${
                   currentView === "dashboard" ? "active" : ""
                 }`}
-                onClick={() => setCurrentView("dashboard")}>
+                onClick={() => navigateTo({ view: "dashboard" })}>
                 ダッシュボード
               </button>
               <button
@@ -786,6 +1512,14 @@ function App() {
                 onClick={openCalendarScreen}>
                 カレンダー
               </button>
+              <button
+                type="button"
+                className={`hero-nav-button ${
+                  currentView === "tickers" ? "active" : ""
+                }`}
+                onClick={() => navigateTo({ view: "tickers" })}>
+                銘柄別
+              </button>
               <button
                 type="button"
                 className={`hero-nav-button ${
@@ -796,10 +1530,47 @@ function App() {
               </button>
               <button
                 type="button"
-                className="hero-nav-button logout"
-                onClick={handleLogout}>
-                ログアウト
+                className={`hero-nav-button ${
+                  currentView === "import" ? "active" : ""
+                }`}
+                onClick={() => navigateTo({ view: "import" })}>
+                CSV取込
+              </button>
+              <button
+                type="button"
+                className={`hero-nav-button ${
+                  currentView === "settings" ? "active" : ""
+                }`}
+                onClick={() => navigateTo({ view: "settings" })}>
+                タグ設定
               </button>
+              <button
+                type="button"
+                className={`hero-nav-button ${
+                  currentView === "trash" ? "active" : ""
+                }`}
+                onClick={() => navigateTo({ view: "trash" })}>
+                ゴミ箱
+                {trashedEntries.length > 0 && ` (${trashedEntries.length})`}
+              </button>
+              {storageMode === "supabase" && (
+                <>
+                  <button
+                    type="button"
+                    className={`hero-nav-button ${
+                      currentView === "profile" ? "active" : ""
+                    }`}
+                    onClick={() => navigateTo({ view: "profile" })}>
+                    アカウント
+                  </button>
+                  <button
+                    type="button"
+                    className="hero-nav-button logout"
+                    onClick={handleLogout}>
+                    ログアウト
+                  </button>
+                </>
+              )}
             </>
           ) : (
             <button
@@ -807,7 +1578,7 @@ function App() {
               className={`hero-nav-button ${
                 currentView === "login" ? "active" : ""
               }`}
-              onClick={() => setCurrentView("login")}>
+              onClick={() => navigateTo({ view: "login" })}>
               ログイン
             </button>
           )}
@@ -816,12 +1587,17 @@ function App() {
 
       {currentView === "login" ? (
         <LoginView
+          mode={loginMode}
           loginState={loginState}
           isLoggingIn={isLoggingIn}
           loginError={loginError}
+          loginNotice={loginNotice}
           onChange={handleLoginChange}
+          onModeChange={handleLoginModeChange}
           onSubmit={handleLoginSubmit}
         />
+      ) : currentView === "resetPassword" ? (
+        <ResetPasswordView onSubmit={handleResetPassword} />
       ) : currentView === "dashboard" ? (
         <main className="dashboard-layout">
           <section className="panel analytics-panel">
@@ -844,22 +1620,99 @@ function App() {
                       className={`summary-range-button ${
                         summaryRange === option.value ? "active" : ""
                       }`}
-                      onClick={() => setSummaryRange(option.value)}>
+                      onClick={() => selectSummaryRange(option.value)}>
                       {option.label}
                     </button>
                   ))}
                 </div>
               </div>
+              {summaryRange === "custom" ? (
+                <div className="summary-custom-range">
+                  <input
+                    type="date"
+                    aria-label="開始日"
+                    value={customRange.from}
+                    max={customRange.to || undefined}
+                    onChange={(event) =>
+                      changeCustomRange("from", event.target.value)
+                    }
+                  />
+                  <span>〜</span>
+                  <input
+                    type="date"
+                    aria-label="終了日"
+                    value={customRange.to}
+                    min={customRange.from || undefined}
+                    onChange={(event) =>
+                      changeCustomRange("to", event.target.value)
+                    }
+                  />
+                </div>
+              ) : summaryRange !== "all" ? (
+                <div className="summary-period-stepper">
+                  <button
+                    type="button"
+                    className="month-nav-button"
+                    onClick={() => stepSummaryPeriod(summaryOffset - 1)}
+                    aria-label="前の期間">
+                    ‹
+                  </button>
+                  <span className="summary-period-label">
+                    {summaryPeriod.label}
+                  </span>
+                  <button
+                    type="button"
+                    className="month-nav-button"
+                    onClick={() => stepSummaryPeriod(summaryOffset + 1)}
+                    disabled={summaryOffset >= 0}
+                    aria-label="次の期間">
+                    ›
+                  </button>
+                  {summaryOffset < 0 && (
+                    <button
+                      type="button"
+                      className="month-reset-button"
+                      onClick={() => stepSummaryPeriod(0)}>
+                      最新
+                    </button>
+                  )}
+                </div>
+              ) : null}
+              {summaryRange !== "all" && (
+                <label className="summary-compare-toggle">
+                  <input
+                    type="checkbox"
+                    checked={isComparing}
+                    onChange={(event) => setIsComparing(event.target.checked)}
+                  />
+                  前期間と比較
+                  {comparisonPeriod && (
+                    <span className="summary-compare-period">
+                      ({comparisonPeriod.label})
+                    </span>
+                  )}
+                </label>
+              )}
             </div>
 
             {!isLoggedIn ? (
               <p className="empty-state">
                 ログインすると取引サマリが表示されます。
               </p>
-            ) : summaryEntries.length === 0 ? (
-              <p className="empty-state">この期間の記録はまだありません。</p>
-            ) : weekdayFilteredEntries.length === 0 ? (
-              <p className="empty-state">選択した曜日の記録はまだありません。</p>
+            ) : performanceQuery.error || summaryTotals.error ? (
+              <p className="empty-state">
+                {performanceQuery.error || summaryTotals.error}
+              </p>
+            ) : !analytics ? (
+              <p className="empty-state">読み込み中...</p>
+            ) : analytics.totalTrades === 0 ? (
+              <p className="empty-state">
+                {tagFilter
+                  ? "選択したタグの記録はまだありません。"
+                  : weekdayFilter === "all"
+                  ? "この期間の記録はまだありません。"
+                  : "選択した曜日の記録はまだありません。"}
+              </p>
             ) : (
               <div className="analytics-grid">
                 <article className="metric">
@@ -867,6 +1720,13 @@ function App() {
                   <strong className="metric-value">
                     {analytics.totalTrades}
                   </strong>
+                  {comparisonAnalytics && (
+                    <MetricDelta
+                      current={analytics.totalTrades}
+                      previous={comparisonAnalytics.totalTrades}
+                      format={compareTradeCount}
+                    />
+                  )}
                 </article>
                 <article className="metric">
                   <span className="metric-label">累計損益</span>
@@ -876,20 +1736,37 @@ function App() {
                     }`}>
                     {formatCurrency(analytics.totalProfit)}
                   </strong>
+                  {comparisonAnalytics && (
+                    <MetricDelta
+                      current={analytics.totalProfit}
+                      previous={comparisonAnalytics.totalProfit}
+                      format={compareCurrency}
+                    />
+                  )}
                 </article>
                 <article className="metric">
                   <span className="metric-label">勝率</span>
                   <strong className="metric-value">
                     {analytics.winSampleCount
-                      ? new Intl.NumberFormat("ja-JP", {
-                          style: "percent",
-                          maximumFractionDigits: 1
-                        }).format(analytics.winRate)
+                      ? winRateFormatter.format(analytics.winRate)
                       : "—"}
                   </strong>
                   <span className="metric-footnote">
                     損益入力 {analytics.winSampleCount} 件
                   </span>
+                  {comparisonAnalytics && (
+                    <MetricDelta
+                      current={
+                        analytics.winSampleCount ? analytics.winRate : null
+                      }
+                      previous={
+                        comparisonAnalytics.winSampleCount
+                          ? comparisonAnalytics.winRate
+                          : null
+                      }
+                      format={compareWinRate}
+                    />
+                  )}
                   <div className="weekday-filter">
                     <span className="weekday-filter-label">曜日で絞り込み</span>
                     <div
@@ -906,13 +1783,11 @@ function App() {
                               isActive ? "active" : ""
                             }`}
                             onClick={() =>
-                              setWeekdayFilter((prev) => {
-                                if (option.value === "all") {
-                                  return "all";
-                                }
-                                return prev === option.value
-                                  ? "all"
-                                  : option.value;
+                              updateListQuery({
+                                weekdayFilter:
+                                  option.value === "all" || isActive
+                                    ? "all"
+                                    : option.value
                               })
                             }
                             aria-pressed={isActive}>
@@ -923,223 +1798,583 @@ function App() {
                     </div>
                   </div>
                 </article>
+                <PerformanceMetricCards
+                  metrics={analytics}
+                  previous={comparisonAnalytics}
+                />
               </div>
             )}
+
+            {isLoggedIn &&
+              tagPerformances.length > 0 && (
+                <TagPerformanceTable
+                  tags={tags}
+                  performances={tagPerformances}
+                  selectedTagId={tagFilter}
+                  onSelectTag={selectTagFilter}
+                />
+              )}
           </section>
 
-          <section className="panel list-panel">
-            <div className="list-header">
+          <div className="dashboard-main">
+            <section className="panel chart-panel">
               <div>
-                <h2>取引履歴</h2>
+                <h2>損益曲線</h2>
               </div>
-              <input
-                className="search-input"
-                type="search"
-                placeholder="銘柄コード・銘柄名で検索"
-                value={searchTerm}
-                onChange={(event) => setSearchTerm(event.target.value)}
-              />
-            </div>
+              {!isLoggedIn ? (
+                <p className="empty-state">
+                  ログインすると損益曲線が表示されます。
+                </p>
+              ) : (
+                <EquityChart points={equityCurve} />
+              )}
+            </section>
+
+            {isLoggedIn && (
+              <section className="panel timing-panel">
+                <div>
+                  <h2>時間帯・保有時間分析</h2>
+                </div>
+                {timingQuery.error ? (
+                  <p className="empty-state">{timingQuery.error}</p>
+                ) : (
+                  <TimingAnalysisPanel totals={timingQuery.data ?? []} />
+                )}
+              </section>
+            )}
 
-            {loadError && <p className="empty-state">{loadError}</p>}
+            <section className="panel list-panel">
+              <div className="list-header">
+                <div>
+                  <h2>取引履歴</h2>
+                </div>
+                <input
+                  className="search-input"
+                  type="search"
+                  placeholder="キーワード・ticker:7203 profit<0 after:2025-01-01"
+                  aria-describedby="search-help"
+                  value={searchTerm}
+                  onChange={(event) =>
+                    updateListQuery(
+                      { searchTerm: event.target.value },
+                      { replace: true }
+                    )
+                  }
+                />
+                <details id="search-help" className="search-help">
+                  <summary>検索の書き方</summary>
+                  <p>
+                    キーワードは銘柄・銘柄名・売買理由・振り返り・タグから探します。全角/半角やカタカナ/ひらがなの違いは区別しません。
+                  </p>
+                  <ul>
+                    <li>
+                      <code>ticker:6871</code> <code>name:トヨタ</code>{" "}
+                      <code>reason:寄り天</code> <code>reflection:損切り</code>{" "}
+                      <code>tag:ブレイク</code> — 項目を指定
+                    </li>
+                    <li>
+                      <code>profit&lt;0</code> <code>profit&gt;=10000</code> —
+                      損益で絞り込み
+                    </li>
+                    <li>
+                      <code>after:2025-01-01</code>{" "}
+                      <code>before:2025-03-31</code> <code>date:2025-02</code>{" "}
+                      — 取引日で絞り込み
+                    </li>
+                    <li>
+                      <code>"寄り付き 急落"</code> — 空白を含む語句
+                    </li>
+                  </ul>
+                </details>
+                {tradeQuery.errors.length > 0 && (
+                  <ul className="search-errors" role="alert">
+                    {tradeQuery.errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+                {isLoggedIn && (
+                  <ExportControls
+                    count={historyTotal ?? 0}
+                    tags={tags}
+                    loadEntries={loadExportEntries}
+                  />
+                )}
+                {tradeSync && (
+                  <div className="sync-status" role="status">
+                    <span
+                      className={`sync-indicator ${
+                        syncState.isOnline ? "online" : "offline"
+                      }`}>
+                      {!syncState.isOnline
+                        ? "オフライン"
+                        : syncState.isSyncing
+                        ? "同期中..."
+                        : syncState.pendingCount
+                        ? `未送信 ${syncState.pendingCount} 件`
+                        : "同期済み"}
+                    </span>
+                    {syncState.conflictCount > 0 && (
+                      <span className="sync-indicator conflict">
+                        競合 {syncState.conflictCount} 件
+                      </span>
+                    )}
+                    {syncState.pendingCount > 0 && (
+                      <button
+                        type="button"
+                        className="sync-button"
+                        onClick={() => tradeSync?.syncPending()}
+                        disabled={syncState.isSyncing}>
+                        今すぐ同期
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
 
-            {isLoading ? (
-              <p className="empty-state">読み込み中...</p>
-            ) : !isLoggedIn ? (
-              <p className="empty-state">
-                ログインすると取引履歴が表示されます。
-              </p>
-            ) : !filteredEntries.length ? (
-              <p className="empty-state">
-                検索または曜日の条件に一致する記録がありません。
-              </p>
-            ) : (
-              <>
-                <ul className="entry-list">
-                  {paginatedEntries.map((entry) => {
-                    const hasProfit =
-                      entry.realizedProfit !== undefined &&
-                      entry.realizedProfit !== null;
-
-                    return (
-                      <li key={entry.id} className="entry-card">
-                        <header className="entry-header">
-                          <div className="entry-title">
-                            <span className="entry-ticker">
-                              {entry.ticker || "—"}
-                            </span>
-                            <span className="entry-ticker-name">
-                              {entry.tickerName || "—"}
-                            </span>
-                          </div>
-                          <div className="entry-header-actions">
-                            <time className="entry-date">
-                              {entry.tradeDate}
-                            </time>
-                            <button
-                              type="button"
-                              className="entry-edit-button"
-                              onClick={() => openEditEntry(entry)}>
-                              編集
-                            </button>
-                            <button
-                              type="button"
-                              className="entry-delete-button"
-                              onClick={() =>
-                                handleDeleteEntry(entry.id, entry.imagePath)
+              {historyQuery.error && (
+                <p className="empty-state">{historyQuery.error}</p>
+              )}
+
+              {isLoading || (!historyQuery.data && historyQuery.isLoading) ? (
+                <p className="empty-state">読み込み中...</p>
+              ) : !isLoggedIn ? (
+                <p className="empty-state">
+                  ログインすると取引履歴が表示されます。
+                </p>
+              ) : !historyTotal ? (
+                <p className="empty-state">
+                  検索・曜日・タグの条件に一致する記録がありません。
+                </p>
+              ) : (
+                <>
+                  <ul className="entry-list">
+                    {paginatedEntries.map((entry) => {
+                      const hasProfit =
+                        entry.realizedProfit !== undefined &&
+                        entry.realizedProfit !== null;
+                      const move = perShareMove(entry);
+                    const holding = holdingMinutes(entry);
+                      const rate = returnRate(entry);
+                      const images = viewerImagesOf(entry);
+
+                      return (
+                        <li key={entry.id} className="entry-card">
+                          <header className="entry-header">
+                            <a
+                              className="entry-title entry-link"
+                              href={routeHref({
+                                view: "trade",
+                                tradeId: entry.id
+                              })}
+                              onClick={(event) =>
+                                followLink(
+                                  event,
+                                  routeHref({ view: "trade", tradeId: entry.id })
+                                )
                               }>
-                              削除
-                            </button>
-                          </div>
-                        </header>
-
-                        <div className="entry-body">
-                          <dl className="entry-stats">
-                            <div>
-                              <dt>損益</dt>
-                              <dd
-                                className={
-                                  hasProfit && entry.realizedProfit! < 0
-                                    ? "negative"
-                                    : "positive"
-                                }>
-                                {hasProfit
-                                  ? formatCurrency(entry.realizedProfit!)
-                                  : "—"}
-                              </dd>
-                            </div>
-                          </dl>
-
-                          {entry.reason && (
-                            <section className="entry-note">
-                              <h4>売買理由</h4>
-                              <pre className="entry-note-text">
-                                {entry.reason}
-                              </pre>
-                            </section>
-                          )}
-
-                          {entry.reflection && (
-                            <section className="entry-note">
-                              <h4>振り返り</h4>
-                              <pre className="entry-note-text">
-                                {entry.reflection}
-                              </pre>
-                            </section>
-                          )}
-
-                          {entry.imageUrl && (
-                            <figure className="entry-image">
+                              <span className="entry-ticker">
+                                {entry.ticker ? (
+                                  <HighlightedText
+                                    text={entry.ticker}
+                                    terms={highlightTermsFor(
+                                      tradeQuery,
+                                      "ticker"
+                                    )}
+                                  />
+                                ) : (
+                                  "—"
+                                )}
+                              </span>
+                              <span className="entry-ticker-name">
+                                {entry.tickerName ? (
+                                  <HighlightedText
+                                    text={entry.tickerName}
+                                    terms={highlightTermsFor(tradeQuery, "name")}
+                                  />
+                                ) : (
+                                  "—"
+                                )}
+                              </span>
+                            </a>
+                            <div className="entry-header-actions">
+                              {entry.syncStatus && (
+                                <span
+                                  className={`entry-sync-badge ${entry.syncStatus}`}>
+                                  {SYNC_STATUS_LABELS[entry.syncStatus]}
+                                </span>
+                              )}
+                              <time className="entry-date">
+                                {entry.tradeDate}
+                              </time>
                               <button
                                 type="button"
-                                className="entry-image-button"
-                                onClick={() =>
-                                  openImageViewer(
-                                    entry.imageUrl ?? '',
-                                    `${entry.ticker} の取引メモ`
-                                  )
-                                }
-                              >
-                                <img
-                                  src={entry.imageUrl}
-                                  alt={`${entry.ticker} の取引メモ`}
-                                />
+                                className="entry-edit-button"
+                                onClick={() => openEditEntry(entry)}>
+                                編集
                               </button>
-                            </figure>
+                              <button
+                                type="button"
+                                className="entry-delete-button"
+                                onClick={() => handleDeleteEntry(entry)}>
+                                削除
+                              </button>
+                            </div>
+                          </header>
+
+                          {entry.syncStatus === "conflict" && (
+                            <div className="entry-conflict" role="alert">
+                              <p>
+                                別の端末での変更と競合しています。どちらの内容を残すか選んでください。
+                              </p>
+                              <div className="entry-conflict-actions">
+                                <button
+                                  type="button"
+                                  className="secondary-button"
+                                  onClick={() =>
+                                    handleResolveConflict(entry.id, "server")
+                                  }>
+                                  サーバーの内容を採用
+                                </button>
+                                <button
+                                  type="button"
+                                  className="submit-button"
+                                  onClick={() =>
+                                    handleResolveConflict(entry.id, "local")
+                                  }>
+                                  この端末の内容を適用
+                                </button>
+                              </div>
+                            </div>
                           )}
-                        </div>
-                      </li>
-                    );
-                  })}
-                </ul>
-                {filteredEntries.length > PAGE_SIZE && (
-                  <nav className="pagination" aria-label="取引履歴のページング">
-                    <button
-                      type="button"
-                      className="pagination-button"
-                      onClick={() =>
-                        setCurrentPage((prev) => Math.max(1, prev - 1))
-                      }
-                      disabled={currentPage === 1}>
-                      前へ
-                    </button>
-                    <span className="pagination-status">
-                      {currentPage} / {totalPages}
-                    </span>
-                    <button
-                      type="button"
-                      className="pagination-button"
-                      onClick={() =>
-                        setCurrentPage((prev) => Math.min(totalPages, prev + 1))
-                      }
-                      disabled={currentPage === totalPages}>
-                      次へ
-                    </button>
-                  </nav>
-                )}
-              </>
-            )}
-          </section>
+
+                          <div className="entry-body">
+                            <dl className="entry-stats">
+                              <div>
+                                <dt>損益</dt>
+                                <dd
+                                  className={
+                                    hasProfit && entry.realizedProfit! < 0
+                                      ? "negative"
+                                      : "positive"
+                                  }>
+                                  {hasProfit
+                                    ? formatCurrency(entry.realizedProfit!)
+                                    : "—"}
+                                </dd>
+                              </div>
+                              {entry.side && (
+                                <div>
+                                  <dt>売買</dt>
+                                  <dd>{SIDE_LABELS[entry.side]}</dd>
+                                </div>
+                              )}
+                              {entry.entryPrice !== null && (
+                                <div>
+                                  <dt>建値 → 決済</dt>
+                                  <dd>
+                                    {formatPrice(entry.entryPrice)} →{" "}
+                                    {entry.exitPrice !== null
+                                      ? formatPrice(entry.exitPrice)
+                                      : "—"}
+                                  </dd>
+                                </div>
+                              )}
+                              {entry.quantity !== null && (
+                                <div>
+                                  <dt>数量</dt>
+                                  <dd>{formatPrice(entry.quantity)}株</dd>
+                                </div>
+                              )}
+                              {(entry.entryTime || entry.exitTime) && (
+                              <div>
+                                <dt>時刻</dt>
+                                <dd>
+                                  {entry.entryTime ?? "—"} →{" "}
+                                  {entry.exitTime ?? "—"}
+                                  {holding !== null &&
+                                    ` (${formatHoldingTime(holding)})`}
+                                </dd>
+                              </div>
+                            )}
+                            {move !== null && (
+                                <div>
+                                  <dt>値幅 (1株)</dt>
+                                  <dd className={move < 0 ? "negative" : "positive"}>
+                                    {move > 0 ? "+" : ""}
+                                    {formatPrice(move)}円
+                                  </dd>
+                                </div>
+                              )}
+                              {rate !== null && (
+                                <div>
+                                  <dt>騰落率</dt>
+                                  <dd className={rate < 0 ? "negative" : "positive"}>
+                                    {formatSignedPercent(rate)}
+                                  </dd>
+                                </div>
+                              )}
+                            </dl>
+
+                            {entry.tagIds.some((id) => tagsById.has(id)) && (
+                              <ul className="entry-tags" aria-label="タグ">
+                                {entry.tagIds.flatMap((id) => {
+                                  const tag = tagsById.get(id);
+                                  return tag
+                                    ? [
+                                        <li key={tag.id} className="tag-chip">
+                                          <HighlightedText
+                                            text={tag.name}
+                                            terms={highlightTermsFor(
+                                              tradeQuery,
+                                              "tag"
+                                            )}
+                                          />
+                                        </li>
+                                      ]
+                                    : [];
+                                })}
+                              </ul>
+                            )}
+
+                            {entry.fills.length > 0 && (
+                              <ol
+                                className="fill-timeline"
+                                aria-label="約定の流れ">
+                                {entry.fills.map((fill) => (
+                                  <li
+                                    key={fill.id}
+                                    className={`fill-chip ${fill.side}`}>
+                                    {formatFill(fill)}
+                                  </li>
+                                ))}
+                              </ol>
+                            )}
+
+                            {entry.reason && (
+                              <section className="entry-note">
+                                <h4>売買理由</h4>
+                                <pre className="entry-note-text">
+                                  <HighlightedText
+                                    text={entry.reason}
+                                    terms={highlightTermsFor(
+                                      tradeQuery,
+                                      "reason"
+                                    )}
+                                  />
+                                </pre>
+                              </section>
+                            )}
+
+                            {entry.reflection && (
+                              <section className="entry-note">
+                                <h4>振り返り</h4>
+                                <pre className="entry-note-text">
+                                  <HighlightedText
+                                    text={entry.reflection}
+                                    terms={highlightTermsFor(
+                                      tradeQuery,
+                                      "reflection"
+                                    )}
+                                  />
+                                </pre>
+                              </section>
+                            )}
+
+                            {images.length > 0 && (
+                              <div className="entry-images">
+                                {images.map((image, index) => (
+                                  <figure
+                                    key={image.path}
+                                    className="entry-image">
+                                    <button
+                                      type="button"
+                                      className="entry-image-button"
+                                      onClick={() =>
+                                        openImageViewer(entry, index)
+                                      }>
+                                      <StoredImage
+                                        path={image.path}
+                                        alt={image.alt}
+                                      />
+                                    </button>
+                                  </figure>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  {historyTotal > PAGE_SIZE && (
+                    <nav className="pagination" aria-label="取引履歴のページング">
+                      <button
+                        type="button"
+                        className="pagination-button"
+                        onClick={() =>
+                          updateListQuery({ currentPage: currentPage - 1 })
+                        }
+                        disabled={currentPage === 1}>
+                        前へ
+                      </button>
+                      <span className="pagination-status">
+                        {currentPage} / {totalPages}
+                      </span>
+                      <button
+                        type="button"
+                        className="pagination-button"
+                        onClick={() =>
+                          updateListQuery({ currentPage: currentPage + 1 })
+                        }
+                        disabled={currentPage === totalPages}>
+                        次へ
+                      </button>
+                    </nav>
+                  )}
+                </>
+              )}
+            </section>
+          </div>
         </main>
       ) : currentView === "calendar" ? (
         <CalendarView
           isLoggedIn={isLoggedIn}
+          mode={calendarMode}
+          yearHeatmap={yearHeatmap}
           monthLabel={calendarMonthLabel}
           monthSummary={monthSummary}
           cells={calendarCells}
+          selectedDate={selectedCalendarDate}
+          dayEntries={calendarDayEntries}
+          onSelectDate={setSelectedCalendarDate}
+          onEditEntry={openEditEntry}
+          onDeleteEntry={handleDeleteEntry}
+          onOpenImage={openImageViewer}
+          onModeChange={setCalendarMode}
+          onSelectMonth={openCalendarMonth}
           onPrevMonth={goToPrevMonth}
           onNextMonth={goToNextMonth}
           onResetMonth={goToCurrentMonth}
         />
+      ) : currentView === "tickers" ? (
+        <TickerBreakdownView
+          isLoggedIn={isLoggedIn}
+          totals={tickerTotalsQuery.data}
+          error={tickerTotalsQuery.error}
+          selectedTicker={selectedTicker}
+          history={tickerHistoryEntries}
+          onSelectTicker={setSelectedTicker}
+        />
+      ) : currentView === "import" ? (
+        <ImportView
+          isLoggedIn={isLoggedIn}
+          loadExisting={loadImportCandidates}
+          onImport={handleImport}
+          onCancel={() => navigateTo({ view: "dashboard" })}
+        />
+      ) : currentView === "settings" ? (
+        <TagSettingsView
+          isLoggedIn={isLoggedIn}
+          tags={tags}
+          onCreate={handleCreateTag}
+          onRename={handleRenameTag}
+          onDelete={handleDeleteTag}
+        />
+      ) : currentView === "trash" ? (
+        <TrashView
+          isLoggedIn={isLoggedIn}
+          entries={trashedEntries}
+          onRestore={handleRestoreEntry}
+          onPurge={handlePurgeEntries}
+        />
+      ) : currentView === "profile" ? (
+        <ProfileView
+          email={session?.user.email ?? null}
+          pendingEmail={session?.user.new_email ?? null}
+          onChangeEmail={updateEmail}
+          onChangePassword={updatePassword}
+        />
+      ) : currentView === "trade" ? (
+        <TradeDetailView
+          isLoggedIn={isLoggedIn}
+          isLoading={isLoading || routeEntryQuery.isLoading}
+          entry={routeEntry}
+          tagsById={tagsById}
+          onBack={() => navigateTo({ view: "dashboard" })}
+          onEdit={openEditEntry}
+          onDelete={async (entry) => {
+            if (await handleDeleteEntry(entry)) {
+              navigateTo({ view: "dashboard" });
+            }
+          }}
+          onOpenImage={openImageViewer}
+          loadRevisions={loadRevisions}
+          onRestoreRevision={handleRestoreRevision}
+        />
       ) : (
         <TradeForm
           isLoggedIn={isLoggedIn}
           formState={formState}
-          imageFile={imageFile}
+          tags={tags}
           isSubmitting={isSubmitting}
           formError={formError}
           maxDate={todayString()}
-          fileInputRef={imageInputRef}
           onInputChange={handleInputChange}
-          onImageChange={handleImageChange}
+          onFillsChange={handleFillsChange}
+          onTagsChange={handleTagsChange}
+          onImagesChange={handleImagesChange}
           onSubmit={handleSubmit}
           onCancel={() => {
             resetForm();
-            setCurrentView("dashboard");
+            navigateTo({ view: "dashboard" });
           }}
         />
       )}
       <EditTradeModal
         isOpen={Boolean(editDraft && editingEntryId)}
         draft={editDraft}
+        tags={tags}
+        maxDate={todayString()}
         isSaving={isUpdating}
         error={editError}
         onChange={handleEditChange}
+        onFillsChange={handleEditFillsChange}
+        onTagsChange={handleEditTagsChange}
+        onImagesChange={handleEditImagesChange}
         onClose={closeEditEntry}
         onSubmit={handleSaveEdit}
       />
-      {imageViewer && (
-        <div
-          className="viewer-backdrop"
-          role="presentation"
-          onClick={closeImageViewer}
-        >
-          <figure
-            className="viewer-container"
-            onClick={(event) => event.stopPropagation()}
-          >
-            <img src={imageViewer.src} alt={imageViewer.alt} />
-            <figcaption>{imageViewer.alt}</figcaption>
-            <button
-              type="button"
-              className="viewer-close-button"
-              onClick={closeImageViewer}
-              aria-label="閉じる"
-            >
-              ✕
-            </button>
-          </figure>
-        </div>
+      {viewerEntry && imageViewer && (
+        <ImageViewer
+          images={viewerImagesOf(viewerEntry)}
+          index={imageViewer.index}
+          onIndexChange={(index) =>
+            setImageViewer((prev) => (prev ? { ...prev, index } : prev))
+          }
+          onSaveAnnotations={(path, shapes) =>
+            handleSaveAnnotations(viewerEntry, path, shapes)
+          }
+          onClose={closeImageViewer}
+        />
+      )}
+      {isModalOpen && remoteChangeIds.length > 0 && (
+        <RemoteChangeNotice
+          count={remoteChangeIds.length}
+          affectsEditedEntry={Boolean(
+            editingEntryId && remoteChangeIds.includes(editingEntryId)
+          )}
+          onDismiss={() => setRemoteChangeIds([])}
+        />
+      )}
+      {undoTrashEntry && (
+        <UndoToast
+          message={`「${
+            undoTrashEntry.ticker || undoTrashEntry.tradeDate
+          }」をゴミ箱に移動しました。`}
+          onUndo={handleUndoTrash}
+          onDismiss={dismissUndoToast}
+        />
       )}
     </div>
   );
@@ -0,0 +1,173 @@
+import { useRef, useState } from "react";
+import type { PointerEvent } from "react";
+import { useImageUrl } from "../lib/imageUrls";
+import type { AnnotationPoint, AnnotationShape } from "../types";
+
+// Shapes are stored normalised; they are drawn on a 1000-unit-wide canvas
+// whose height follows the image's aspect ratio, so strokes stay uniform.
+const VIEW_WIDTH = 1000;
+const STROKE_WIDTH = 4;
+const ARROW_HEAD_LENGTH = 22;
+const ARROW_HEAD_WIDTH = 12;
+const FONT_SIZE = 30;
+
+const arrowHead = (from: AnnotationPoint, to: AnnotationPoint, height: number) => {
+  const x1 = from.x * VIEW_WIDTH;
+  const y1 = from.y * height;
+  const x2 = to.x * VIEW_WIDTH;
+  const y2 = to.y * height;
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const baseX = x2 - ARROW_HEAD_LENGTH * Math.cos(angle);
+  const baseY = y2 - ARROW_HEAD_LENGTH * Math.sin(angle);
+  const offsetX = ARROW_HEAD_WIDTH * Math.sin(angle);
+  const offsetY = ARROW_HEAD_WIDTH * Math.cos(angle);
+  return `${x2},${y2} ${baseX + offsetX},${baseY - offsetY} ${
+    baseX - offsetX
+  },${baseY + offsetY}`;
+};
+
+function Shape({ shape, height }: { shape: AnnotationShape; height: number }) {
+  const stroke = {
+    stroke: shape.color,
+    strokeWidth: STROKE_WIDTH,
+    strokeLinecap: "round" as const,
+    strokeLinejoin: "round" as const,
+    fill: "none"
+  };
+
+  switch (shape.kind) {
+    case "arrow":
+      return (
+        <g>
+          <line
+            x1={shape.from.x * VIEW_WIDTH}
+            y1={shape.from.y * height}
+            x2={shape.to.x * VIEW_WIDTH}
+            y2={shape.to.y * height}
+            {...stroke}
+          />
+          <polygon
+            points={arrowHead(shape.from, shape.to, height)}
+            fill={shape.color}
+          />
+        </g>
+      );
+    case "hline":
+      return (
+        <line
+          x1={0}
+          y1={shape.y * height}
+          x2={VIEW_WIDTH}
+          y2={shape.y * height}
+          strokeDasharray="14 8"
+          {...stroke}
+        />
+      );
+    case "rect":
+      return (
+        <rect
+          x={Math.min(shape.from.x, shape.to.x) * VIEW_WIDTH}
+          y={Math.min(shape.from.y, shape.to.y) * height}
+          width={Math.abs(shape.to.x - shape.from.x) * VIEW_WIDTH}
+          height={Math.abs(shape.to.y - shape.from.y) * height}
+          {...stroke}
+        />
+      );
+    case "freehand":
+      return (
+        <polyline
+          points={shape.points
+            .map((point) => `${point.x * VIEW_WIDTH},${point.y * height}`)
+            .join(" ")}
+          {...stroke}
+        />
+      );
+    case "text":
+      return (
+        <text
+          x={shape.at.x * VIEW_WIDTH}
+          y={shape.at.y * height}
+          fill={shape.color}
+          fontSize={FONT_SIZE}
+          fontWeight={700}
+          className="annotation-text">
+          {shape.text}
+        </text>
+      );
+  }
+}
+
+type AnnotatedImageProps = {
+  /** Storage path; the URL comes from the shared signed-URL cache. */
+  path: string;
+  alt: string;
+  shapes: AnnotationShape[];
+  /** Set by the editor; without handlers the overlay ignores the pointer. */
+  onPointerDown?: (point: AnnotationPoint) => void;
+  onPointerMove?: (point: AnnotationPoint) => void;
+  onPointerUp?: () => void;
+};
+
+export function AnnotatedImage({
+  path,
+  alt,
+  shapes,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp
+}: AnnotatedImageProps) {
+  const src = useImageUrl(path);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const height = VIEW_WIDTH * (aspectRatio ?? 1);
+  const isInteractive = Boolean(onPointerDown);
+
+  const toPoint = (event: PointerEvent<SVGSVGElement>): AnnotationPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height)
+    };
+  };
+
+  return (
+    <div className={`annotated-image ${isInteractive ? "editing" : ""}`}>
+      {!src && (
+        <span className="stored-image-placeholder viewer-placeholder" />
+      )}
+      <img
+        src={src ?? undefined}
+        hidden={!src}
+        alt={alt}
+        draggable={false}
+        onLoad={(event) =>
+          setAspectRatio(
+            event.currentTarget.naturalHeight / event.currentTarget.naturalWidth
+          )
+        }
+      />
+      {aspectRatio !== null && (isInteractive || shapes.length > 0) && (
+        <svg
+          ref={svgRef}
+          className="annotation-layer"
+          viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+          preserveAspectRatio="none"
+          aria-hidden="true"
+          onPointerDown={(event) => {
+            if (!onPointerDown) {
+              return;
+            }
+            svgRef.current?.setPointerCapture(event.pointerId);
+            onPointerDown(toPoint(event));
+          }}
+          onPointerMove={(event) => onPointerMove?.(toPoint(event))}
+          onPointerUp={() => onPointerUp?.()}>
+          {shapes.map((shape) => (
+            <Shape key={shape.id} shape={shape} height={height} />
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_TOOLS,
+  isMeaningfulShape
+} from "../lib/annotations";
+import { createId } from "../lib/tradeRepository";
+import type {
+  AnnotationPoint,
+  AnnotationShape,
+  AnnotationTool,
+  ViewerImage
+} from "../types";
+import { AnnotatedImage } from "./AnnotatedImage";
+
+type AnnotationEditorProps = {
+  image: ViewerImage;
+  onSave: (shapes: AnnotationShape[]) => Promise<void>;
+  onCancel: () => void;
+};
+
+export function AnnotationEditor({
+  image,
+  onSave,
+  onCancel
+}: AnnotationEditorProps) {
+  const [shapes, setShapes] = useState(image.annotations);
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>("arrow");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const startShape = (point: AnnotationPoint) => {
+    const base = { id: createId(), color };
+    switch (tool) {
+      case "text": {
+        const text = window.prompt("ラベルの文字を入力してください");
+        if (text?.trim()) {
+          setShapes((prev) => [
+            ...prev,
+            { ...base, kind: "text", at: point, text: text.trim() }
+          ]);
+        }
+        return;
+      }
+      case "hline":
+        setDraft({ ...base, kind: "hline", y: point.y });
+        return;
+      case "freehand":
+        setDraft({ ...base, kind: "freehand", points: [point] });
+        return;
+      default:
+        setDraft({ ...base, kind: tool, from: point, to: point });
+    }
+  };
+
+  const extendShape = (point: AnnotationPoint) => {
+    setDraft((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      switch (prev.kind) {
+        case "hline":
+          return { ...prev, y: point.y };
+        case "freehand":
+          return { ...prev, points: [...prev.points, point] };
+        case "arrow":
+        case "rect":
+          return { ...prev, to: point };
+        default:
+          return prev;
+      }
+    });
+  };
+
+  const finishShape = () => {
+    if (draft && isMeaningfulShape(draft)) {
+      setShapes((prev) => [...prev, draft]);
+    }
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError("");
+    try {
+      await onSave(shapes);
+    } catch (caught) {
+      setError(
+        caught instanceof Error ? caught.message : "注釈の保存に失敗しました。"
+      );
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="annotation-editor">
+      <div className="annotation-toolbar" role="toolbar" aria-label="注釈ツール">
+        <div className="annotation-tools" role="group" aria-label="図形">
+          {ANNOTATION_TOOLS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={`annotation-tool ${
+                tool === option.value ? "active" : ""
+              }`}
+              aria-pressed={tool === option.value}
+              onClick={() => setTool(option.value)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="annotation-colors" role="group" aria-label="色">
+          {ANNOTATION_COLORS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`annotation-color ${color === option ? "active" : ""}`}
+              style={{ background: option }}
+              aria-label={option}
+              aria-pressed={color === option}
+              onClick={() => setColor(option)}
+            />
+          ))}
+        </div>
+        <div className="annotation-history">
+          <button
+            type="button"
+            className="annotation-tool"
+            onClick={() => setShapes((prev) => prev.slice(0, -1))}
+            disabled={!shapes.length}>
+            元に戻す
+          </button>
+          <button
+            type="button"
+            className="annotation-tool"
+            onClick={() => setShapes([])}
+            disabled={!shapes.length}>
+            すべて消去
+          </button>
+        </div>
+      </div>
+
+      <div className="viewer-stage">
+        <AnnotatedImage
+          path={image.path}
+          alt={image.alt}
+          shapes={draft ? [...shapes, draft] : shapes}
+          onPointerDown={startShape}
+          onPointerMove={extendShape}
+          onPointerUp={finishShape}
+        />
+      </div>
+
+      {error && <p className="form-error">{error}</p>}
+
+      <div className="annotation-actions">
+        <button
+          type="button"
+          className="secondary-button"
+          onClick={onCancel}
+          disabled={isSaving}>
+          キャンセル
+        </button>
+        <button
+          type="button"
+          className="submit-button"
+          onClick={handleSave}
+          disabled={isSaving}>
+          {isSaving ? "保存中…" : "注釈を保存"}
+        </button>
+      </div>
+    </div>
+  );
+}
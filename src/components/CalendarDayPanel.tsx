@@ -0,0 +1,122 @@
+import { viewerImagesOf } from "../lib/images";
+import type { TradeEntry } from "../types";
+import { StoredImage } from "./StoredImage";
+
+const formatter = new Intl.NumberFormat("ja-JP", { maximumFractionDigits: 0 });
+
+type CalendarDayPanelProps = {
+  date: string;
+  entries: TradeEntry[];
+  onClose: () => void;
+  onEditEntry: (entry: TradeEntry) => void;
+  onDeleteEntry: (entry: TradeEntry) => void;
+  onOpenImage: (entry: TradeEntry, index: number) => void;
+};
+
+export function CalendarDayPanel({
+  date,
+  entries,
+  onClose,
+  onEditEntry,
+  onDeleteEntry,
+  onOpenImage
+}: CalendarDayPanelProps) {
+  const total = entries.reduce(
+    (sum, entry) => sum + (entry.realizedProfit ?? 0),
+    0
+  );
+
+  return (
+    <aside className="panel calendar-day-panel" aria-label={`${date} の取引`}>
+      <header className="calendar-day-header">
+        <div>
+          <h2>{date}</h2>
+          <p className="panel-description">
+            {entries.length} 件 / 合計{" "}
+            <span className={total < 0 ? "negative" : "positive"}>
+              {formatter.format(total)}円
+            </span>
+          </p>
+        </div>
+        <button
+          type="button"
+          className="modal-close-button"
+          onClick={onClose}
+          aria-label="閉じる">
+          ✕
+        </button>
+      </header>
+
+      {!entries.length ? (
+        <p className="empty-state">この日の記録はありません。</p>
+      ) : (
+        <ul className="calendar-day-entries">
+          {entries.map((entry) => {
+            const images = viewerImagesOf(entry);
+            return (
+              <li key={entry.id} className="calendar-day-entry">
+                <div className="calendar-day-entry-header">
+                  <span className="entry-ticker">{entry.ticker || "—"}</span>
+                  <span className="entry-ticker-name">
+                    {entry.tickerName || "—"}
+                  </span>
+                  <strong
+                    className={
+                      (entry.realizedProfit ?? 0) < 0 ? "negative" : "positive"
+                    }>
+                    {entry.realizedProfit !== null
+                      ? `${formatter.format(entry.realizedProfit)}円`
+                      : "—"}
+                  </strong>
+                </div>
+
+                {entry.reason && (
+                  <section className="entry-note">
+                    <h4>売買理由</h4>
+                    <pre className="entry-note-text">{entry.reason}</pre>
+                  </section>
+                )}
+                {entry.reflection && (
+                  <section className="entry-note">
+                    <h4>振り返り</h4>
+                    <pre className="entry-note-text">{entry.reflection}</pre>
+                  </section>
+                )}
+
+                <div className="calendar-day-entry-footer">
+                  {images.length > 0 && (
+                    <div className="calendar-day-thumbnails">
+                      {images.map((image, index) => (
+                        <button
+                          key={image.path}
+                          type="button"
+                          className="calendar-day-thumbnail"
+                          onClick={() => onOpenImage(entry, index)}>
+                          <StoredImage path={image.path} alt={image.alt} />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="entry-header-actions">
+                    <button
+                      type="button"
+                      className="entry-edit-button"
+                      onClick={() => onEditEntry(entry)}>
+                      編集
+                    </button>
+                    <button
+                      type="button"
+                      className="entry-delete-button"
+                      onClick={() => onDeleteEntry(entry)}>
+                      削除
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
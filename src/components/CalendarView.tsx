@@ -1,12 +1,27 @@
-import type { CalendarCell, MonthSummary } from "../types";
+import type { YearHeatmap as YearHeatmapData } from "../lib/analytics";
+import type { CalendarCell, MonthSummary, TradeEntry } from "../types";
+import { CalendarDayPanel } from "./CalendarDayPanel";
+import { YearHeatmap } from "./YearHeatmap";
+
+export type CalendarMode = "month" | "year";
 
 const formatter = new Intl.NumberFormat("ja-JP", { maximumFractionDigits: 0 });
 
 type CalendarViewProps = {
   isLoggedIn: boolean;
+  mode: CalendarMode;
+  yearHeatmap: YearHeatmapData;
   monthLabel: string;
   monthSummary: MonthSummary;
   cells: CalendarCell[];
+  selectedDate: string | null;
+  dayEntries: TradeEntry[];
+  onSelectDate: (date: string | null) => void;
+  onEditEntry: (entry: TradeEntry) => void;
+  onDeleteEntry: (entry: TradeEntry) => void;
+  onOpenImage: (entry: TradeEntry, index: number) => void;
+  onModeChange: (mode: CalendarMode) => void;
+  onSelectMonth: (month: number) => void;
   onPrevMonth: () => void;
   onNextMonth: () => void;
   onResetMonth: () => void;
@@ -14,43 +29,112 @@ type CalendarViewProps = {
 
 const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
 
+const profitClassOf = (profit: number | null) =>
+  profit === null
+    ? ""
+    : profit > 0
+    ? "positive"
+    : profit < 0
+    ? "negative"
+    : "neutral";
+
+/** Splits the padded month grid into rows of seven with their subtotals. */
+const toWeeks = (cells: CalendarCell[]) => {
+  const weeks: Array<{
+    cells: CalendarCell[];
+    profit: number | null;
+    tradeCount: number;
+  }> = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    const weekCells = cells.slice(index, index + 7);
+    const profits = weekCells.flatMap((cell) =>
+      cell.profit !== undefined && cell.profit !== null ? [cell.profit] : []
+    );
+    weeks.push({
+      cells: weekCells,
+      profit: profits.length
+        ? profits.reduce((sum, profit) => sum + profit, 0)
+        : null,
+      tradeCount: weekCells.reduce(
+        (sum, cell) => sum + (cell.tradeCount ?? 0),
+        0
+      )
+    });
+  }
+  return weeks;
+};
+
 export function CalendarView({
   isLoggedIn,
+  mode,
+  yearHeatmap,
   monthLabel,
   monthSummary,
   cells,
+  selectedDate,
+  dayEntries,
+  onSelectDate,
+  onEditEntry,
+  onDeleteEntry,
+  onOpenImage,
+  onModeChange,
+  onSelectMonth,
   onPrevMonth,
   onNextMonth,
   onResetMonth
 }: CalendarViewProps) {
+  const isYearMode = mode === "year";
+  const unit = isYearMode ? "年" : "月";
+
   return (
-    <main className="calendar-page">
+    <main
+      className={`calendar-page ${selectedDate ? "with-day-panel" : ""}`}>
       <section className="panel calendar-panel">
         <div className="calendar-header">
           <div>
             <h2>損益カレンダー</h2>
           </div>
+          <div
+            className="summary-range-buttons"
+            role="tablist"
+            aria-label="表示単位の切り替え">
+            {(["month", "year"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="tab"
+                aria-selected={mode === option}
+                className={`summary-range-button ${
+                  mode === option ? "active" : ""
+                }`}
+                onClick={() => onModeChange(option)}>
+                {option === "month" ? "月" : "年"}
+              </button>
+            ))}
+          </div>
           <div className="calendar-month-controls">
             <button
               type="button"
               className="month-nav-button"
               onClick={onPrevMonth}
-              aria-label="前の月">
+              aria-label={`前の${unit}`}>
               ‹
             </button>
-            <span className="calendar-month-label">{monthLabel}</span>
+            <span className="calendar-month-label">
+              {isYearMode ? `${yearHeatmap.year}年` : monthLabel}
+            </span>
             <button
               type="button"
               className="month-nav-button"
               onClick={onNextMonth}
-              aria-label="次の月">
+              aria-label={`次の${unit}`}>
               ›
             </button>
             <button
               type="button"
               className="month-reset-button"
               onClick={onResetMonth}>
-              今月
+              {isYearMode ? "今年" : "今月"}
             </button>
           </div>
         </div>
@@ -58,6 +142,8 @@ export function CalendarView({
           <p className="empty-state">
             ログインするとカレンダーが表示されます。
           </p>
+        ) : isYearMode ? (
+          <YearHeatmap heatmap={yearHeatmap} onSelectMonth={onSelectMonth} />
         ) : (
           <>
             <div className="calendar-summary">
@@ -91,42 +177,93 @@ export function CalendarView({
               {WEEKDAYS.map((label) => (
                 <span key={label}>{label}</span>
               ))}
+              <span>週計</span>
             </div>
             <div className="calendar-grid">
-              {cells.map((cell) => {
-                if (cell.isPlaceholder) {
-                  return (
-                    <div key={cell.key} className="calendar-cell placeholder" />
-                  );
-                }
+              {toWeeks(cells).map((week, weekIndex) => (
+                <div key={week.cells[0].key} className="calendar-week">
+                  {week.cells.map((cell) => {
+                    if (cell.isPlaceholder) {
+                      return (
+                        <div
+                          key={cell.key}
+                          className="calendar-cell placeholder"
+                        />
+                      );
+                    }
 
-                const profit = cell.profit ?? null;
-                const profitClass =
-                  profit === null
-                    ? ""
-                    : profit > 0
-                    ? "positive"
-                    : profit < 0
-                    ? "negative"
-                    : "neutral";
+                    const profit = cell.profit ?? null;
+                    const tradeCount = cell.tradeCount ?? 0;
+                    const isSelected = selectedDate === cell.key;
 
-                return (
+                    return (
+                      <button
+                        key={cell.key}
+                        type="button"
+                        className={`calendar-cell ${
+                          cell.isToday ? "today" : ""
+                        } ${isSelected ? "selected" : ""} ${profitClassOf(
+                          profit
+                        )}`}
+                        onClick={() =>
+                          onSelectDate(isSelected ? null : cell.key)
+                        }
+                        aria-pressed={isSelected}
+                        aria-label={`${cell.key} ${tradeCount}件`}>
+                        <span className="calendar-cell-top">
+                          <span className="calendar-day-number">
+                            {cell.day}
+                          </span>
+                          {tradeCount > 0 && (
+                            <span className="calendar-trade-count">
+                              {tradeCount}件
+                            </span>
+                          )}
+                        </span>
+                        <span className="calendar-profit">
+                          {profit !== null
+                            ? `${formatter.format(profit)}円`
+                            : "—"}
+                        </span>
+                      </button>
+                    );
+                  })}
                   <div
-                    key={cell.key}
-                    className={`calendar-cell ${
-                      cell.isToday ? "today" : ""
-                    } ${profitClass}`}>
-                    <span className="calendar-day-number">{cell.day}</span>
+                    className={`calendar-cell calendar-week-total ${profitClassOf(
+                      week.profit
+                    )}`}>
+                    <span className="calendar-cell-top">
+                      <span className="calendar-day-number">
+                        第{weekIndex + 1}週
+                      </span>
+                      {week.tradeCount > 0 && (
+                        <span className="calendar-trade-count">
+                          {week.tradeCount}件
+                        </span>
+                      )}
+                    </span>
                     <span className="calendar-profit">
-                      {profit !== null ? `${formatter.format(profit)}円` : "—"}
+                      {week.profit !== null
+                        ? `${formatter.format(week.profit)}円`
+                        : "—"}
                     </span>
                   </div>
-                );
-              })}
+                </div>
+              ))}
             </div>
           </>
         )}
       </section>
+      {isLoggedIn && !isYearMode && selectedDate && (
+        <CalendarDayPanel
+          date={selectedDate}
+          entries={dayEntries}
+          onClose={() => onSelectDate(null)}
+          onEditEntry={onEditEntry}
+          onDeleteEntry={onDeleteEntry}
+          onOpenImage={onOpenImage}
+        />
+      )}
     </main>
   );
 }
@@ -1,5 +1,10 @@
 import type { ChangeEvent } from 'react'
-import type { EditEntryDraft } from '../types'
+import { computeRealizedProfit, parsePositionInputs } from '../lib/position'
+import { formatHoldingTime, holdingMinutes, parseTradeTimes } from '../lib/timing'
+import type { EditEntryDraft, FillDraft, ImageDraft, Tag } from '../types'
+import { FillsEditor } from './FillsEditor'
+import { ImageAttachments } from './ImageAttachments'
+import { TagPicker } from './TagPicker'
 
 const formatter = new Intl.NumberFormat('ja-JP', {
   style: 'currency',
@@ -21,18 +26,42 @@ const previewValue = (value: string) => {
 type EditTradeModalProps = {
   isOpen: boolean
   draft: EditEntryDraft | null
+  tags: Tag[]
+  maxDate: string
   isSaving: boolean
   error: string
   onChange: (event: ChangeEvent<HTMLTextAreaElement | HTMLInputElement>) => void
+  onFillsChange: (fills: FillDraft[]) => void
+  onTagsChange: (tagIds: string[]) => void
+  onImagesChange: (images: ImageDraft[]) => void
   onClose: () => void
   onSubmit: () => void
 }
 
-export function EditTradeModal({ isOpen, draft, isSaving, error, onChange, onClose, onSubmit }: EditTradeModalProps) {
+export function EditTradeModal({
+  isOpen,
+  draft,
+  tags,
+  maxDate,
+  isSaving,
+  error,
+  onChange,
+  onFillsChange,
+  onTagsChange,
+  onImagesChange,
+  onClose,
+  onSubmit,
+}: EditTradeModalProps) {
   if (!isOpen || !draft) {
     return null
   }
 
+  const position = parsePositionInputs(draft)
+  const computedProfit = position.fields ? computeRealizedProfit(position.fields) : null
+  const hasFills = draft.fills.length > 0
+  const timing = parseTradeTimes(draft, position.fields?.fills ?? [])
+  const holding = timing.times ? holdingMinutes(timing.times) : null
+
   return (
     <div className="modal-backdrop" role="presentation" onClick={onClose}>
       <div
@@ -45,7 +74,7 @@ export function EditTradeModal({ isOpen, draft, isSaving, error, onChange, onClo
         <header className="modal-header">
           <div>
             <h2 id="edit-trade-title">日記を編集</h2>
-            <p className="modal-subtitle">売買理由や振り返り、損益を修正できます。</p>
+            <p className="modal-subtitle">銘柄や売買日、建値・数量・損益、画像まですべての項目を修正できます。</p>
           </div>
           <button type="button" className="modal-close-button" onClick={onClose} aria-label="閉じる">
             ✕
@@ -59,6 +88,43 @@ export function EditTradeModal({ isOpen, draft, isSaving, error, onChange, onClo
             onSubmit()
           }}
         >
+          <div className="form-grid">
+            <div className="form-row">
+              <label htmlFor="edit-ticker">銘柄コード</label>
+              <input
+                id="edit-ticker"
+                name="ticker"
+                type="text"
+                placeholder="例: 6871"
+                value={draft.ticker}
+                onChange={onChange}
+              />
+            </div>
+            <div className="form-row">
+              <label htmlFor="edit-ticker-name">銘柄名</label>
+              <input
+                id="edit-ticker-name"
+                name="tickerName"
+                type="text"
+                placeholder="例: 日本マイクロニクス"
+                value={draft.tickerName}
+                onChange={onChange}
+              />
+            </div>
+            <div className="form-row">
+              <label htmlFor="edit-trade-date">売買日</label>
+              <input
+                id="edit-trade-date"
+                name="tradeDate"
+                type="date"
+                value={draft.tradeDate}
+                max={maxDate}
+                onChange={onChange}
+                required
+              />
+            </div>
+          </div>
+
           <div className="form-row">
             <label htmlFor="edit-reason">売買理由</label>
             <textarea
@@ -83,19 +149,123 @@ export function EditTradeModal({ isOpen, draft, isSaving, error, onChange, onClo
             />
           </div>
 
+          <div className="form-row">
+            <span className="form-row-label">売買区分</span>
+            <div className="side-toggle" role="radiogroup" aria-label="売買区分">
+              <label className="side-option">
+                <input type="radio" name="side" value="long" checked={draft.side === 'long'} onChange={onChange} disabled={hasFills} />
+                買い
+              </label>
+              <label className="side-option">
+                <input type="radio" name="side" value="short" checked={draft.side === 'short'} onChange={onChange} disabled={hasFills} />
+                売り (信用売り)
+              </label>
+            </div>
+          </div>
+
+          <div className="form-grid">
+            <div className="form-row">
+              <label htmlFor="edit-entry-price">建値 (円)</label>
+              <input
+                id="edit-entry-price"
+                name="entryPrice"
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                min="0"
+                value={draft.entryPrice}
+                onChange={onChange}
+                disabled={hasFills}
+              />
+            </div>
+            <div className="form-row">
+              <label htmlFor="edit-exit-price">決済価格 (円)</label>
+              <input
+                id="edit-exit-price"
+                name="exitPrice"
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                min="0"
+                value={draft.exitPrice}
+                onChange={onChange}
+                disabled={hasFills}
+              />
+            </div>
+            <div className="form-row">
+              <label htmlFor="edit-quantity">数量 (株)</label>
+              <input
+                id="edit-quantity"
+                name="quantity"
+                type="number"
+                inputMode="numeric"
+                step="1"
+                min="1"
+                value={draft.quantity}
+                onChange={onChange}
+                disabled={hasFills}
+              />
+            </div>
+            <div className="form-row">
+              <label htmlFor="edit-commission">手数料 (円)</label>
+              <input
+                id="edit-commission"
+                name="commission"
+                type="number"
+                inputMode="decimal"
+                step="1"
+                min="0"
+                value={draft.commission}
+                onChange={onChange}
+              />
+            </div>
+          </div>
+
+          <div className="form-grid">
+            <div className="form-row">
+              <label htmlFor="edit-entry-time">エントリー時刻</label>
+              <input id="edit-entry-time" name="entryTime" type="time" value={draft.entryTime} onChange={onChange} />
+            </div>
+            <div className="form-row">
+              <label htmlFor="edit-exit-time">決済時刻</label>
+              <input id="edit-exit-time" name="exitTime" type="time" value={draft.exitTime} onChange={onChange} />
+            </div>
+          </div>
+          {holding !== null && <small className="form-hint">保有時間 {formatHoldingTime(holding)}</small>}
+
+          <div className="form-row">
+            <span className="form-row-label">約定 (分割エントリー・決済)</span>
+            <FillsEditor fills={draft.fills} onChange={onFillsChange} />
+          </div>
+
           <div className="form-row">
             <label htmlFor="edit-profit">損益 (円)</label>
             <input
               id="edit-profit"
-              name="realizedProfitInput"
+              name="realizedProfit"
               type="number"
               inputMode="decimal"
               step="0.01"
-              value={draft.realizedProfitInput}
+              value={draft.realizedProfit}
               onChange={onChange}
               placeholder="例: 12345 or -6789"
             />
-            <small className="modal-footnote">プレビュー: {previewValue(draft.realizedProfitInput)}</small>
+            <small className="modal-footnote">
+              プレビュー:{' '}
+              {draft.realizedProfit.trim() || computedProfit === null
+                ? previewValue(draft.realizedProfit)
+                : `${formatter.format(computedProfit)} (自動計算)`}
+            </small>
+          </div>
+
+          <div className="form-row">
+            <span className="form-row-label">タグ</span>
+            <TagPicker tags={tags} selectedIds={draft.tagIds} onChange={onTagsChange} />
+          </div>
+
+          <div className="form-row">
+            <label htmlFor="edit-images">画像</label>
+            <ImageAttachments id="edit-images" images={draft.images} onChange={onImagesChange} disabled={isSaving} />
           </div>
 
           {error && <p className="form-error">{error}</p>}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import type { PointerEvent } from "react";
+import type { EquityPoint } from "../lib/analytics";
+
+const WIDTH = 640;
+const EQUITY_HEIGHT = 200;
+const DRAWDOWN_HEIGHT = 90;
+const GAP = 28;
+const PADDING = { top: 12, right: 12, bottom: 22, left: 56 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const DRAWDOWN_TOP = PADDING.top + EQUITY_HEIGHT + GAP;
+const HEIGHT = DRAWDOWN_TOP + DRAWDOWN_HEIGHT + PADDING.bottom;
+
+const axisFormatter = new Intl.NumberFormat("ja-JP", {
+  notation: "compact",
+  maximumFractionDigits: 1
+});
+const yenFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 0,
+  signDisplay: "exceptZero"
+});
+
+const formatYen = (value: number) => `${yenFormatter.format(value)}円`;
+
+/** Maps a value in [min, max] onto [bottom, top] pixels; flat ranges sit mid-way. */
+const scale = (min: number, max: number, top: number, height: number) => {
+  const span = max - min;
+  return (value: number) =>
+    span === 0 ? top + height / 2 : top + ((max - value) / span) * height;
+};
+
+const toPath = (coordinates: Array<[number, number]>) =>
+  coordinates
+    .map(
+      ([x, y], index) => `${index ? "L" : "M"}${x.toFixed(1)},${y.toFixed(1)}`
+    )
+    .join(" ");
+
+type EquityChartProps = {
+  points: EquityPoint[];
+};
+
+export function EquityChart({ points }: EquityChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  if (!points.length) {
+    return <p className="empty-state">損益が入力された記録がありません。</p>;
+  }
+
+  const step = points.length > 1 ? PLOT_WIDTH / (points.length - 1) : 0;
+  const xOf = (index: number) =>
+    points.length > 1
+      ? PADDING.left + index * step
+      : PADDING.left + PLOT_WIDTH / 2;
+
+  const equities = points.map((point) => point.equity);
+  const equityMax = Math.max(0, ...equities);
+  const equityMin = Math.min(0, ...equities);
+  const equityY = scale(equityMin, equityMax, PADDING.top, EQUITY_HEIGHT);
+  const drawdownMin = Math.min(0, ...points.map((point) => point.drawdown));
+  // Without any drawdown the zero line should still sit at the top.
+  const drawdownY = scale(
+    Math.min(drawdownMin, -1),
+    0,
+    DRAWDOWN_TOP,
+    DRAWDOWN_HEIGHT
+  );
+  const drawdownZero = drawdownY(0);
+
+  const equityCoordinates = points.map(
+    (point, index) => [xOf(index), equityY(point.equity)] as [number, number]
+  );
+  const drawdownCoordinates = points.map(
+    (point, index) =>
+      [xOf(index), drawdownY(point.drawdown)] as [number, number]
+  );
+  const firstX = xOf(0);
+  const lastX = xOf(points.length - 1);
+  const equityZero = equityY(0);
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * WIDTH;
+    const index = step ? Math.round((x - PADDING.left) / step) : 0;
+    setHoverIndex(Math.min(points.length - 1, Math.max(0, index)));
+  };
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+  const lastPoint = points[points.length - 1];
+
+  return (
+    <div className="equity-chart">
+      <svg
+        className="equity-chart-svg"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={`損益曲線: ${points[0].tradeDate} から ${
+          lastPoint.tradeDate
+        } までの累計 ${formatYen(lastPoint.equity)}`}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHoverIndex(null)}>
+        <text
+          className="equity-chart-title"
+          x={PADDING.left}
+          y={PADDING.top - 2}>
+          累計損益
+        </text>
+        <text
+          className="equity-chart-axis"
+          x={PADDING.left - 8}
+          y={PADDING.top + 4}
+          textAnchor="end">
+          {axisFormatter.format(equityMax)}
+        </text>
+        <text
+          className="equity-chart-axis"
+          x={PADDING.left - 8}
+          y={PADDING.top + EQUITY_HEIGHT}
+          textAnchor="end">
+          {axisFormatter.format(equityMin)}
+        </text>
+        {equityMin < 0 && equityMax > 0 && (
+          <text
+            className="equity-chart-axis"
+            x={PADDING.left - 8}
+            y={equityZero + 4}
+            textAnchor="end">
+            0
+          </text>
+        )}
+        <line
+          className="equity-chart-zero"
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={equityZero}
+          y2={equityZero}
+        />
+        <path
+          className="equity-chart-area"
+          d={`${toPath(equityCoordinates)} L${lastX},${equityZero} L${firstX},${equityZero} Z`}
+        />
+        <path className="equity-chart-line" d={toPath(equityCoordinates)} />
+
+        <text
+          className="equity-chart-title"
+          x={PADDING.left}
+          y={DRAWDOWN_TOP - 6}>
+          ドローダウン
+        </text>
+        <text
+          className="equity-chart-axis"
+          x={PADDING.left - 8}
+          y={DRAWDOWN_TOP + 4}
+          textAnchor="end">
+          0
+        </text>
+        {drawdownMin < 0 && (
+          <text
+            className="equity-chart-axis"
+            x={PADDING.left - 8}
+            y={DRAWDOWN_TOP + DRAWDOWN_HEIGHT}
+            textAnchor="end">
+            {axisFormatter.format(drawdownMin)}
+          </text>
+        )}
+        <line
+          className="equity-chart-zero"
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={drawdownZero}
+          y2={drawdownZero}
+        />
+        <path
+          className="drawdown-chart-area"
+          d={`${toPath(drawdownCoordinates)} L${lastX},${drawdownZero} L${firstX},${drawdownZero} Z`}
+        />
+
+        <text
+          className="equity-chart-axis"
+          x={firstX}
+          y={HEIGHT - 4}
+          textAnchor={points.length > 1 ? "start" : "middle"}>
+          {points[0].tradeDate}
+        </text>
+        {points.length > 1 && (
+          <text
+            className="equity-chart-axis"
+            x={lastX}
+            y={HEIGHT - 4}
+            textAnchor="end">
+            {lastPoint.tradeDate}
+          </text>
+        )}
+
+        {hovered && hoverIndex !== null && (
+          <g className="equity-chart-hover">
+            <line
+              x1={xOf(hoverIndex)}
+              x2={xOf(hoverIndex)}
+              y1={PADDING.top}
+              y2={DRAWDOWN_TOP + DRAWDOWN_HEIGHT}
+            />
+            <circle
+              cx={xOf(hoverIndex)}
+              cy={equityY(hovered.equity)}
+              r={4}
+            />
+            <circle
+              className="drawdown"
+              cx={xOf(hoverIndex)}
+              cy={drawdownY(hovered.drawdown)}
+              r={4}
+            />
+          </g>
+        )}
+      </svg>
+
+      {hovered && hoverIndex !== null && (
+        <div
+          className={`equity-chart-tooltip ${
+            xOf(hoverIndex) > WIDTH / 2 ? "align-right" : ""
+          }`}
+          style={{ left: `${(xOf(hoverIndex) / WIDTH) * 100}%` }}
+          role="status">
+          <strong>{hovered.tradeDate}</strong>
+          <dl>
+            <div>
+              <dt>取引数</dt>
+              <dd>{hovered.tradeCount}件</dd>
+            </div>
+            <div>
+              <dt>日次損益</dt>
+              <dd className={hovered.dayProfit < 0 ? "negative" : "positive"}>
+                {formatYen(hovered.dayProfit)}
+              </dd>
+            </div>
+            <div>
+              <dt>累計</dt>
+              <dd>{formatYen(hovered.equity)}</dd>
+            </div>
+            <div>
+              <dt>ドローダウン</dt>
+              <dd>{formatYen(hovered.drawdown)}</dd>
+            </div>
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
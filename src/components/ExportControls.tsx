@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { downloadTrades } from "../lib/exportTrades";
+import { imageUrlCache } from "../lib/imageUrls";
+import type { ExportFormat } from "../lib/exportTrades";
+import type { Tag, TradeEntry } from "../types";
+
+type ExportControlsProps = {
+  /** Entries matching the current filters, across all pages. */
+  count: number;
+  tags: Tag[];
+  /** Fetches every matching entry; the list itself only holds one page. */
+  loadEntries: () => Promise<TradeEntry[]>;
+};
+
+export function ExportControls({
+  count,
+  tags,
+  loadEntries
+}: ExportControlsProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [includeImageLinks, setIncludeImageLinks] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const entries = await loadEntries();
+      // Image links are signed only on demand, in batches.
+      const imageUrls = includeImageLinks
+        ? await imageUrlCache.resolve(
+            entries.flatMap((entry) => entry.imagePaths)
+          )
+        : undefined;
+      downloadTrades(entries, { format, includeImageLinks, tags, imageUrls });
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "エクスポートに失敗しました。"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="export-controls">
+      <select
+        className="export-select"
+        value={format}
+        onChange={(event) => setFormat(event.target.value as ExportFormat)}
+        aria-label="エクスポート形式">
+        <option value="csv">CSV (Excel対応)</option>
+        <option value="json">JSON</option>
+      </select>
+      <label className="export-option">
+        <input
+          type="checkbox"
+          checked={includeImageLinks}
+          onChange={(event) => setIncludeImageLinks(event.target.checked)}
+        />
+        画像リンクを含める
+      </label>
+      <button
+        type="button"
+        className="export-button"
+        onClick={handleExport}
+        disabled={!count || isExporting}>
+        {isExporting ? "準備中…" : `${count} 件をエクスポート`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { createFillDraft } from "../lib/fills";
+import type { FillDraft } from "../types";
+
+type FillsEditorProps = {
+  fills: FillDraft[];
+  onChange: (fills: FillDraft[]) => void;
+};
+
+export function FillsEditor({ fills, onChange }: FillsEditorProps) {
+  const updateFill = (id: string, patch: Partial<FillDraft>) => {
+    onChange(
+      fills.map((fill) => (fill.id === id ? { ...fill, ...patch } : fill))
+    );
+  };
+
+  return (
+    <div className="fills-editor">
+      {fills.length > 0 && (
+        <table className="fills-table">
+          <thead>
+            <tr>
+              <th>時刻</th>
+              <th>売買</th>
+              <th>約定価格</th>
+              <th>数量</th>
+              <th aria-label="操作" />
+            </tr>
+          </thead>
+          <tbody>
+            {fills.map((fill, index) => (
+              <tr key={fill.id}>
+                <td>
+                  <input
+                    type="time"
+                    aria-label={`${index + 1}件目の時刻`}
+                    value={fill.time}
+                    onChange={(event) =>
+                      updateFill(fill.id, { time: event.target.value })
+                    }
+                  />
+                </td>
+                <td>
+                  <select
+                    aria-label={`${index + 1}件目の売買`}
+                    value={fill.side}
+                    onChange={(event) =>
+                      updateFill(fill.id, {
+                        side: event.target.value as FillDraft["side"]
+                      })
+                    }>
+                    <option value="buy">買</option>
+                    <option value="sell">売</option>
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.1"
+                    min="0"
+                    aria-label={`${index + 1}件目の約定価格`}
+                    value={fill.price}
+                    onChange={(event) =>
+                      updateFill(fill.id, { price: event.target.value })
+                    }
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    step="1"
+                    min="1"
+                    aria-label={`${index + 1}件目の数量`}
+                    value={fill.quantity}
+                    onChange={(event) =>
+                      updateFill(fill.id, { quantity: event.target.value })
+                    }
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className="fill-remove-button"
+                    onClick={() =>
+                      onChange(
+                        fills.filter((candidate) => candidate.id !== fill.id)
+                      )
+                    }
+                    aria-label={`${index + 1}件目を削除`}>
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <button
+        type="button"
+        className="secondary-button fill-add-button"
+        onClick={() =>
+          onChange([...fills, createFillDraft(fills[fills.length - 1])])
+        }>
+        ＋ 約定を追加
+      </button>
+    </div>
+  );
+}
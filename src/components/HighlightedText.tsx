@@ -0,0 +1,23 @@
+import { splitHighlights } from "../lib/tradeSearch";
+
+type HighlightedTextProps = {
+  text: string;
+  /** Normalised search terms, as produced by parseTradeQuery. */
+  terms: string[];
+};
+
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((segment, index) =>
+        segment.isMatch ? (
+          <mark key={index} className="search-highlight">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { DragEvent } from "react";
+import { compressImage, createImageDraft, imageFilesFrom } from "../lib/images";
+import type { ImageDraft } from "../types";
+import { StoredImage } from "./StoredImage";
+
+type ImageAttachmentsProps = {
+  id: string;
+  images: ImageDraft[];
+  onChange: (images: ImageDraft[]) => void;
+  disabled?: boolean;
+};
+
+const move = (images: ImageDraft[], from: number, to: number) => {
+  const next = [...images];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * Screenshot list for the entry forms. Files can be picked, dropped or pasted
+ * anywhere on the page while the form is open; each one is compressed before
+ * it is added, and uploads happen when the form is saved.
+ */
+export function ImageAttachments({
+  id,
+  images,
+  onChange,
+  disabled = false
+}: ImageAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState("");
+  const isDisabled = disabled || isProcessing;
+
+  const addFiles = useCallback(
+    async (files: File[]) => {
+      if (!files.length) {
+        return;
+      }
+      setIsProcessing(true);
+      setError("");
+      try {
+        const drafts: ImageDraft[] = [];
+        // One at a time: decoding several large screenshots at once is heavy.
+        for (const file of files) {
+          drafts.push(createImageDraft(await compressImage(file)));
+        }
+        onChange([...images, ...drafts]);
+      } catch (caught) {
+        console.error(caught);
+        setError("画像の読み込みに失敗しました。");
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [images, onChange]
+  );
+
+  useEffect(() => {
+    if (disabled) {
+      return;
+    }
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = imageFilesFrom(event.clipboardData);
+      if (!files.length) {
+        return;
+      }
+      event.preventDefault();
+      addFiles(files);
+    };
+    window.addEventListener("paste", handlePaste);
+    return () => {
+      window.removeEventListener("paste", handlePaste);
+    };
+  }, [addFiles, disabled]);
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (!isDisabled) {
+      addFiles(imageFilesFrom(event.dataTransfer));
+    }
+  };
+
+  const removeImage = (index: number) => {
+    const removed = images[index];
+    if (removed.previewUrl) {
+      URL.revokeObjectURL(removed.previewUrl);
+    }
+    onChange(images.filter((_, position) => position !== index));
+  };
+
+  return (
+    <div className="image-attachments">
+      <div
+        className={`image-drop-zone ${isDragging ? "dragging" : ""}`}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}>
+        <label className="file-upload-trigger" htmlFor={id}>
+          ファイルを選択
+        </label>
+        <input
+          id={id}
+          type="file"
+          accept="image/*"
+          multiple
+          ref={inputRef}
+          className="file-upload-input"
+          disabled={isDisabled}
+          onChange={(event) => {
+            addFiles(Array.from(event.target.files ?? []));
+            if (inputRef.current) {
+              inputRef.current.value = "";
+            }
+          }}
+        />
+        <span className="image-drop-hint">
+          {isProcessing
+            ? "画像を圧縮しています..."
+            : "ここにドラッグ＆ドロップ、または Ctrl+V で貼り付け"}
+        </span>
+      </div>
+
+      {error && <p className="form-error">{error}</p>}
+
+      {images.length > 0 && (
+        <ol className="image-attachment-list">
+          {images.map((image, index) => (
+            <li key={image.key} className="image-attachment">
+              {image.previewUrl ? (
+                <img src={image.previewUrl} alt={`添付画像 ${index + 1}`} />
+              ) : image.path ? (
+                <StoredImage path={image.path} alt={`添付画像 ${index + 1}`} />
+              ) : (
+                <span className="image-attachment-placeholder">
+                  プレビューなし
+                </span>
+              )}
+              <div className="image-attachment-actions">
+                <button
+                  type="button"
+                  onClick={() => onChange(move(images, index, index - 1))}
+                  disabled={isDisabled || index === 0}
+                  aria-label={`画像 ${index + 1} を前へ`}>
+                  ←
+                </button>
+                <span className="image-attachment-order">{index + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(move(images, index, index + 1))}
+                  disabled={isDisabled || index === images.length - 1}
+                  aria-label={`画像 ${index + 1} を後ろへ`}>
+                  →
+                </button>
+                <button
+                  type="button"
+                  className="image-attachment-remove"
+                  onClick={() => removeImage(index)}
+                  disabled={isDisabled}
+                  aria-label={`画像 ${index + 1} を削除`}>
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
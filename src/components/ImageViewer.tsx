@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import type { AnnotationShape, ViewerImage } from "../types";
+import { AnnotatedImage } from "./AnnotatedImage";
+import { AnnotationEditor } from "./AnnotationEditor";
+import { StoredImage } from "./StoredImage";
+
+type ImageViewerProps = {
+  images: ViewerImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onSaveAnnotations: (path: string, shapes: AnnotationShape[]) => Promise<void>;
+  onClose: () => void;
+};
+
+export function ImageViewer({
+  images,
+  index,
+  onIndexChange,
+  onSaveAnnotations,
+  onClose
+}: ImageViewerProps) {
+  const [showAnnotations, setShowAnnotations] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const image = images[index];
+  const hasPrevious = index > 0;
+  const hasNext = index < images.length - 1;
+
+  useEffect(() => {
+    // The editor owns the keyboard and pointer while it is open.
+    if (isEditing) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      } else if (event.key === "ArrowLeft" && hasPrevious) {
+        onIndexChange(index - 1);
+      } else if (event.key === "ArrowRight" && hasNext) {
+        onIndexChange(index + 1);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [hasNext, hasPrevious, index, isEditing, onClose, onIndexChange]);
+
+  if (!image) {
+    return null;
+  }
+
+  return (
+    <div
+      className="viewer-backdrop"
+      role="presentation"
+      onClick={isEditing ? undefined : onClose}>
+      <figure
+        className="viewer-container"
+        onClick={(event) => event.stopPropagation()}>
+        {isEditing ? (
+          <AnnotationEditor
+            image={image}
+            onSave={async (shapes) => {
+              await onSaveAnnotations(image.path, shapes);
+              setShowAnnotations(true);
+              setIsEditing(false);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <>
+            <div className="viewer-toolbar">
+              {image.annotations.length > 0 && (
+                <label className="viewer-toggle">
+                  <input
+                    type="checkbox"
+                    checked={showAnnotations}
+                    onChange={(event) =>
+                      setShowAnnotations(event.target.checked)
+                    }
+                  />
+                  注釈を表示
+                </label>
+              )}
+              <button
+                type="button"
+                className="viewer-edit-button"
+                onClick={() => setIsEditing(true)}>
+                {image.annotations.length ? "注釈を編集" : "注釈を追加"}
+              </button>
+            </div>
+            <div className="viewer-stage">
+              <AnnotatedImage
+                path={image.path}
+                alt={image.alt}
+                shapes={showAnnotations ? image.annotations : []}
+              />
+            </div>
+            <figcaption>
+              {image.alt}
+              {images.length > 1 && ` — ${index + 1} / ${images.length}`}
+            </figcaption>
+            {images.length > 1 && (
+              <>
+                <button
+                  type="button"
+                  className="viewer-nav-button previous"
+                  onClick={() => onIndexChange(index - 1)}
+                  disabled={!hasPrevious}
+                  aria-label="前の画像">
+                  ‹
+                </button>
+                <button
+                  type="button"
+                  className="viewer-nav-button next"
+                  onClick={() => onIndexChange(index + 1)}
+                  disabled={!hasNext}
+                  aria-label="次の画像">
+                  ›
+                </button>
+                <ol className="viewer-thumbnails">
+                  {images.map((thumbnail, position) => (
+                    <li key={thumbnail.path}>
+                      <button
+                        type="button"
+                        className={position === index ? "active" : ""}
+                        onClick={() => onIndexChange(position)}
+                        aria-label={`${position + 1} 枚目を表示`}
+                        aria-current={position === index}>
+                        <StoredImage path={thumbnail.path} alt="" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </>
+        )}
+        {!isEditing && (
+          <button
+            type="button"
+            className="viewer-close-button"
+            onClick={onClose}
+            aria-label="閉じる">
+            ✕
+          </button>
+        )}
+      </figure>
+    </div>
+  );
+}
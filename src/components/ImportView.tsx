@@ -0,0 +1,313 @@
+import { useMemo, useState } from "react";
+import type { ChangeEvent } from "react";
+import {
+  BROKER_PROFILES,
+  buildImportPreview,
+  decodeBrokerCsv
+} from "../lib/brokerCsv";
+import type { BrokerId, ImportPreview } from "../lib/brokerCsv";
+import { useAsyncQuery } from "../lib/asyncQuery";
+import type { TradeInput } from "../lib/tradeRepository";
+import type { TradeEntry } from "../types";
+
+type ImportViewProps = {
+  isLoggedIn: boolean;
+  /**
+   * Existing trades between the inclusive dates, used to skip rows that were
+   * already imported.
+   */
+  loadExisting: (from: string, to: string) => Promise<TradeEntry[]>;
+  onImport: (inputs: TradeInput[]) => Promise<void>;
+  onCancel: () => void;
+};
+
+const currencyFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 0
+});
+
+type PreviewResult = {
+  preview: ImportPreview | null;
+  previewError: string;
+};
+
+const buildPreview = (
+  fileText: string | null,
+  existing: TradeEntry[],
+  brokerId: BrokerId | "auto"
+): PreviewResult => {
+  if (fileText === null) {
+    return { preview: null, previewError: "" };
+  }
+  try {
+    return {
+      preview: buildImportPreview(
+        fileText,
+        existing,
+        brokerId === "auto" ? undefined : brokerId
+      ),
+      previewError: ""
+    };
+  } catch (buildError) {
+    return {
+      preview: null,
+      previewError:
+        buildError instanceof Error
+          ? buildError.message
+          : "CSVの読み込みに失敗しました。"
+    };
+  }
+};
+
+export function ImportView({
+  isLoggedIn,
+  loadExisting,
+  onImport,
+  onCancel
+}: ImportViewProps) {
+  const [brokerId, setBrokerId] = useState<BrokerId | "auto">("auto");
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [error, setError] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  // The file is read once without existing trades to learn which dates it
+  // covers; only trades on those dates are loaded for the duplicate check.
+  const parsed = useMemo(
+    () => buildPreview(fileText, [], brokerId),
+    [brokerId, fileText]
+  );
+  const tradeDates = (parsed.preview?.rows ?? [])
+    .flatMap((row) => (row.input ? [row.input.tradeDate] : []))
+    .sort();
+  const firstDate = tradeDates[0] ?? null;
+  const lastDate = tradeDates[tradeDates.length - 1] ?? null;
+
+  const existingQuery = useAsyncQuery(
+    useMemo(
+      () =>
+        firstDate && lastDate
+          ? () => loadExisting(firstDate, lastDate)
+          : null,
+      [firstDate, lastDate, loadExisting]
+    )
+  );
+  // The query keeps the previous file's trades while loading and after a
+  // failure; neither may be used for this file.
+  const existing =
+    firstDate && !existingQuery.isLoading && !existingQuery.error
+      ? existingQuery.data
+      : null;
+  const isLoadingEntries = Boolean(firstDate) && existingQuery.isLoading;
+  const canImport = !firstDate || existing !== null;
+
+  const { preview, previewError } = useMemo(
+    () => (existing ? buildPreview(fileText, existing, brokerId) : parsed),
+    [brokerId, existing, fileText, parsed]
+  );
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      const text = await decodeBrokerCsv(file);
+      setFileName(file.name);
+      setFileText(text);
+      setError("");
+    } catch (readError) {
+      setFileName("");
+      setFileText(null);
+      setError(
+        readError instanceof Error
+          ? readError.message
+          : "CSVの読み込みに失敗しました。"
+      );
+    }
+  };
+
+  const handleBrokerChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setBrokerId(event.target.value as BrokerId | "auto");
+    setError("");
+  };
+
+  const importable =
+    preview?.rows.filter((row) => row.input && !row.isDuplicate) ?? [];
+  const invalidCount =
+    preview?.rows.filter((row) => row.errors.length).length ?? 0;
+  const duplicateCount =
+    preview?.rows.filter((row) => row.isDuplicate).length ?? 0;
+
+  const handleImport = async () => {
+    if (!canImport || !importable.length) {
+      return;
+    }
+    setIsImporting(true);
+    setError("");
+    try {
+      await onImport(importable.map((row) => row.input!));
+      setFileText(null);
+      setFileName("");
+    } catch (importError) {
+      setError(
+        importError instanceof Error
+          ? importError.message
+          : "取り込みに失敗しました。"
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <main className="form-page">
+      <section className="panel form-panel">
+        <div>
+          <h2>CSV取り込み</h2>
+        </div>
+        <p className="panel-description">
+          SBI証券・楽天証券・マネックス証券の実現損益CSVから取引を一括登録します。売買理由と振り返りは取り込み後に編集できます。
+        </p>
+        {!isLoggedIn ? (
+          <p className="empty-state">
+            取り込むにはSupabaseでログインしてください。
+          </p>
+        ) : (
+          <div className="import-form">
+            <div className="form-row">
+              <label htmlFor="import-broker">証券会社</label>
+              <select
+                id="import-broker"
+                className="import-select"
+                value={brokerId}
+                onChange={handleBrokerChange}>
+                <option value="auto">自動判別</option>
+                {BROKER_PROFILES.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-row">
+              <label htmlFor="import-file">CSVファイル</label>
+              <div className="file-upload">
+                <label className="file-upload-trigger" htmlFor="import-file">
+                  ファイルを選択
+                </label>
+                <input
+                  id="import-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileChange}
+                  className="file-upload-input"
+                />
+                <span className="file-upload-name">
+                  {fileName || "選択されていません"}
+                </span>
+              </div>
+            </div>
+
+            {(error || previewError || existingQuery.error) && (
+              <p className="form-error">
+                {error || previewError || existingQuery.error}
+              </p>
+            )}
+
+            {preview && isLoadingEntries && (
+              <p className="import-summary">
+                登録済みの取引を読み込んでいます。重複の確認が終わるまでお待ちください。
+              </p>
+            )}
+
+            {preview && canImport && (
+              <>
+                <p className="import-summary">
+                  {preview.broker.label}として読み込みました。取り込み対象{" "}
+                  {importable.length} 件 / 登録済み {duplicateCount} 件 / エラー{" "}
+                  {invalidCount} 件
+                </p>
+                <div className="import-table-wrapper">
+                  <table className="import-table">
+                    <thead>
+                      <tr>
+                        <th>行</th>
+                        <th>約定日</th>
+                        <th>銘柄コード</th>
+                        <th>銘柄名</th>
+                        <th>損益</th>
+                        <th>状態</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map((row) => (
+                        <tr
+                          key={row.line}
+                          className={
+                            row.errors.length
+                              ? "invalid"
+                              : row.isDuplicate
+                              ? "duplicate"
+                              : ""
+                          }>
+                          <td>{row.line}</td>
+                          <td>
+                            {row.input?.tradeDate ?? (row.raw.tradeDate || "—")}
+                          </td>
+                          <td>{row.input?.ticker ?? (row.raw.ticker || "—")}</td>
+                          <td>
+                            {row.input?.tickerName ??
+                              (row.raw.tickerName || "—")}
+                          </td>
+                          <td>
+                            {!row.input
+                              ? row.raw.realizedProfit || "—"
+                              : row.input.realizedProfit !== null
+                              ? `${currencyFormatter.format(
+                                  row.input.realizedProfit
+                                )}円`
+                              : "—"}
+                          </td>
+                          <td>
+                            {row.errors.length
+                              ? row.errors.join(" ")
+                              : row.isDuplicate
+                              ? "登録済みのためスキップ"
+                              : "取り込み"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            <div className="form-actions">
+              <button
+                type="button"
+                className="submit-button"
+                onClick={handleImport}
+                disabled={
+                  isImporting || !canImport || !importable.length
+                }>
+                {isImporting
+                  ? "取り込み中..."
+                  : preview && isLoadingEntries
+                  ? "重複を確認中..."
+                  : `${importable.length} 件を取り込む`}
+              </button>
+              <button
+                type="button"
+                className="secondary-button"
+                onClick={onCancel}>
+                一覧へ戻る
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
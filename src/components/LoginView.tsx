@@ -1,21 +1,71 @@
 import type { ChangeEvent, FormEvent } from 'react'
-import type { LoginState } from '../types'
+import type { LoginMode, LoginState } from '../types'
 
 type LoginViewProps = {
+  mode: LoginMode
   loginState: LoginState
   isLoggingIn: boolean
   loginError: string
+  loginNotice: string
   onChange: (event: ChangeEvent<HTMLInputElement>) => void
+  onModeChange: (mode: LoginMode) => void
   onSubmit: (event: FormEvent<HTMLFormElement>) => void
 }
 
-export function LoginView({ loginState, isLoggingIn, loginError, onChange, onSubmit }: LoginViewProps) {
+const MODE_TEXT: Record<LoginMode, { title: string; description: string; submit: string; submitting: string }> = {
+  password: {
+    title: 'ログイン',
+    description: '登録済みのメールアドレスとパスワードでログインしてください。',
+    submit: 'ログイン',
+    submitting: 'ログイン中...',
+  },
+  magicLink: {
+    title: 'メールでログイン',
+    description: 'ログイン用のリンクをメールでお送りします。パスワードは不要です。',
+    submit: 'リンクを送信',
+    submitting: '送信中...',
+  },
+  signUp: {
+    title: 'アカウント作成',
+    description: '登録後に確認メールが届きます。メール内のリンクを開くと利用を開始できます。',
+    submit: 'アカウントを作成',
+    submitting: '作成中...',
+  },
+  resetRequest: {
+    title: 'パスワード再設定',
+    description: '登録済みのメールアドレスに、パスワードを再設定するためのリンクをお送りします。',
+    submit: '再設定メールを送信',
+    submitting: '送信中...',
+  },
+}
+
+/** Other modes offered below the form, in display order. */
+const MODE_LINKS: Array<{ mode: LoginMode; label: string }> = [
+  { mode: 'password', label: 'パスワードでログイン' },
+  { mode: 'magicLink', label: 'パスワードなしでログイン' },
+  { mode: 'resetRequest', label: 'パスワードをお忘れの方' },
+  { mode: 'signUp', label: 'アカウントを作成' },
+]
+
+export function LoginView({
+  mode,
+  loginState,
+  isLoggingIn,
+  loginError,
+  loginNotice,
+  onChange,
+  onModeChange,
+  onSubmit,
+}: LoginViewProps) {
+  const text = MODE_TEXT[mode]
+  const needsPassword = mode === 'password' || mode === 'signUp'
+
   return (
     <main className="auth-page">
       <section className="panel auth-panel">
         <div>
-          <h2>ログイン</h2>
-          <p className="panel-description">Supabase Authに登録済みのアカウントでサインインしてください。</p>
+          <h2>{text.title}</h2>
+          <p className="panel-description">{text.description}</p>
         </div>
         <form className="auth-form" onSubmit={onSubmit}>
           <div className="form-row">
@@ -24,32 +74,58 @@ export function LoginView({ loginState, isLoggingIn, loginError, onChange, onSub
               id="email"
               name="email"
               type="email"
+              autoComplete="email"
               placeholder="you@example.com"
               value={loginState.email}
               onChange={onChange}
               required
             />
           </div>
-          <div className="form-row">
-            <label htmlFor="password">パスワード</label>
-            <input
-              id="password"
-              name="password"
-              type="password"
-              placeholder="パスワード"
-              value={loginState.password}
-              onChange={onChange}
-              required
-            />
-          </div>
+          {needsPassword && (
+            <div className="form-row">
+              <label htmlFor="password">パスワード</label>
+              <input
+                id="password"
+                name="password"
+                type="password"
+                autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+                placeholder="パスワード"
+                value={loginState.password}
+                onChange={onChange}
+                required
+              />
+            </div>
+          )}
+          {mode === 'signUp' && (
+            <div className="form-row">
+              <label htmlFor="passwordConfirmation">パスワード（確認）</label>
+              <input
+                id="passwordConfirmation"
+                name="passwordConfirmation"
+                type="password"
+                autoComplete="new-password"
+                placeholder="もう一度入力"
+                value={loginState.passwordConfirmation}
+                onChange={onChange}
+                required
+              />
+            </div>
+          )}
           {loginError && <p className="form-error">{loginError}</p>}
+          {loginNotice && <p className="form-notice">{loginNotice}</p>}
           <div className="auth-actions">
             <button type="submit" className="submit-button" disabled={isLoggingIn}>
-              {isLoggingIn ? 'ログイン中...' : 'ログイン'}
+              {isLoggingIn ? text.submitting : text.submit}
             </button>
           </div>
         </form>
-        <p className="auth-helper-text">※ 初回利用時はSupabase Authでユーザーを作成してからログインしてください。</p>
+        <div className="auth-mode-links">
+          {MODE_LINKS.filter((link) => link.mode !== mode).map((link) => (
+            <button key={link.mode} type="button" className="auth-mode-link" onClick={() => onModeChange(link.mode)}>
+              {link.label}
+            </button>
+          ))}
+        </div>
       </section>
     </main>
   )
@@ -0,0 +1,36 @@
+type MetricDeltaProps = {
+  current: number | null;
+  previous: number | null;
+  format: (value: number, signed?: boolean) => string;
+  /** For metrics such as drawdown where a smaller value is an improvement. */
+  lowerIsBetter?: boolean;
+};
+
+export function MetricDelta({
+  current,
+  previous,
+  format,
+  lowerIsBetter = false
+}: MetricDeltaProps) {
+  const delta =
+    current !== null && previous !== null ? current - previous : null;
+  const hasDelta = delta !== null && Number.isFinite(delta) && delta !== 0;
+  const tone = !hasDelta
+    ? ""
+    : (delta > 0) !== lowerIsBetter
+    ? "positive"
+    : "negative";
+
+  return (
+    <span className="metric-delta">
+      前期間{" "}
+      {previous === null || Number.isNaN(previous) ? "—" : format(previous)}
+      {hasDelta && (
+        <span className={`metric-delta-value ${tone}`}>
+          {" "}
+          ({format(delta, true)})
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { validateNewPassword } from "../lib/auth";
+
+type NewPasswordFormProps = {
+  submitLabel: string;
+  onSubmit: (password: string) => Promise<void>;
+};
+
+/** New password with a confirmation field, checked before it is sent. */
+export function NewPasswordForm({
+  submitLabel,
+  onSubmit
+}: NewPasswordFormProps) {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const invalid = validateNewPassword(password, confirmation);
+    setError(invalid);
+    setNotice("");
+    if (invalid) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(password);
+      setPassword("");
+      setConfirmation("");
+      setNotice("パスワードを変更しました。");
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : "パスワードの変更に失敗しました。"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="auth-form" onSubmit={handleSubmit}>
+      <div className="form-row">
+        <label htmlFor="newPassword">新しいパスワード</label>
+        <input
+          id="newPassword"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          required
+        />
+      </div>
+      <div className="form-row">
+        <label htmlFor="newPasswordConfirmation">
+          新しいパスワード（確認）
+        </label>
+        <input
+          id="newPasswordConfirmation"
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(event) => setConfirmation(event.target.value)}
+          required
+        />
+      </div>
+      {error && <p className="form-error">{error}</p>}
+      {notice && <p className="form-notice">{notice}</p>}
+      <div className="auth-actions">
+        <button type="submit" className="submit-button" disabled={isSaving}>
+          {isSaving ? "保存中..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
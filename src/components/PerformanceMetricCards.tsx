@@ -0,0 +1,173 @@
+import type { PerformanceMetrics } from "../lib/analytics";
+import { MetricDelta } from "./MetricDelta";
+
+const yenFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 0,
+  signDisplay: "exceptZero"
+});
+const ratioFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 2
+});
+const signedRatioFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 2,
+  signDisplay: "exceptZero"
+});
+const percentFormatter = new Intl.NumberFormat("ja-JP", {
+  style: "percent",
+  maximumFractionDigits: 1
+});
+const signedPointFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 1,
+  signDisplay: "exceptZero"
+});
+
+type MetricCard = {
+  label: string;
+  value: string;
+  tone?: "positive" | "negative";
+  footnote?: string;
+  /** Numeric value compared against the previous period, when it has one. */
+  compare?: {
+    pick: (metrics: PerformanceMetrics) => number | null;
+    format: (value: number, signed?: boolean) => string;
+    lowerIsBetter?: boolean;
+  };
+};
+
+const formatYen = (value: number | null) =>
+  value === null ? "—" : `${yenFormatter.format(value)}円`;
+
+const formatRatio = (value: number | null) =>
+  value === null ? "—" : value === Infinity ? "∞" : ratioFormatter.format(value);
+
+const compareYen = (value: number) => formatYen(value);
+
+const compareRatio = (value: number, signed?: boolean) =>
+  signed ? signedRatioFormatter.format(value) : formatRatio(value);
+
+const compareCount = (value: number, signed?: boolean) =>
+  `${signed && value > 0 ? "+" : ""}${value} 回`;
+
+/** Rates compare in percentage points. */
+const compareRate = (value: number, signed?: boolean) =>
+  signed
+    ? `${signedPointFormatter.format(value * 100)}pt`
+    : percentFormatter.format(value);
+
+const toneOf = (value: number | null) =>
+  value === null || value === 0
+    ? undefined
+    : value > 0
+    ? "positive"
+    : "negative";
+
+const buildCards = (metrics: PerformanceMetrics): MetricCard[] => [
+  {
+    label: "プロフィットファクター",
+    value: formatRatio(metrics.profitFactor),
+    footnote: "総利益 ÷ 総損失",
+    compare: { pick: (m) => m.profitFactor, format: compareRatio }
+  },
+  {
+    label: "期待値 (1トレード)",
+    value: metrics.winSampleCount ? formatYen(metrics.expectancy) : "—",
+    tone: metrics.winSampleCount ? toneOf(metrics.expectancy) : undefined,
+    compare: {
+      pick: (m) => (m.winSampleCount ? m.expectancy : null),
+      format: compareYen
+    }
+  },
+  {
+    label: "平均利益 / 平均損失",
+    value: `${formatYen(metrics.averageWin)} / ${formatYen(
+      metrics.averageLoss
+    )}`
+  },
+  {
+    label: "ペイオフレシオ",
+    value: formatRatio(metrics.payoffRatio),
+    footnote: "平均利益 ÷ 平均損失",
+    compare: { pick: (m) => m.payoffRatio, format: compareRatio }
+  },
+  {
+    label: "最大利益",
+    value: formatYen(metrics.largestWin),
+    tone: toneOf(metrics.largestWin),
+    compare: { pick: (m) => m.largestWin, format: compareYen }
+  },
+  {
+    label: "最大損失",
+    value: formatYen(metrics.largestLoss),
+    tone: toneOf(metrics.largestLoss),
+    compare: { pick: (m) => m.largestLoss, format: compareYen }
+  },
+  {
+    label: "最大連勝",
+    value: `${metrics.maxConsecutiveWins} 回`,
+    compare: { pick: (m) => m.maxConsecutiveWins, format: compareCount }
+  },
+  {
+    label: "最大連敗",
+    value: `${metrics.maxConsecutiveLosses} 回`,
+    compare: {
+      pick: (m) => m.maxConsecutiveLosses,
+      format: compareCount,
+      lowerIsBetter: true
+    }
+  },
+  {
+    label: "最大ドローダウン",
+    value: formatYen(-metrics.maxDrawdown),
+    tone: toneOf(-metrics.maxDrawdown),
+    compare: { pick: (m) => -m.maxDrawdown, format: compareYen }
+  },
+  {
+    label: "最大ドローダウン (%)",
+    value:
+      metrics.maxDrawdownRate === null
+        ? "—"
+        : percentFormatter.format(-metrics.maxDrawdownRate),
+    tone: toneOf(metrics.maxDrawdownRate && -metrics.maxDrawdownRate),
+    footnote: "累計損益のピーク比",
+    compare: {
+      pick: (m) => m.maxDrawdownRate,
+      format: compareRate,
+      lowerIsBetter: true
+    }
+  }
+];
+
+type PerformanceMetricCardsProps = {
+  metrics: PerformanceMetrics;
+  /** Metrics of the previous equivalent period in comparison mode. */
+  previous?: PerformanceMetrics | null;
+};
+
+export function PerformanceMetricCards({
+  metrics,
+  previous
+}: PerformanceMetricCardsProps) {
+  return (
+    <>
+      {buildCards(metrics).map((card) => (
+        <article key={card.label} className="metric">
+          <span className="metric-label">{card.label}</span>
+          <strong className={`metric-value ${card.tone ?? ""}`}>
+            {card.value}
+          </strong>
+          {card.footnote && (
+            <span className="metric-footnote">{card.footnote}</span>
+          )}
+          {previous && card.compare && (
+            <MetricDelta
+              current={card.compare.pick(metrics)}
+              previous={card.compare.pick(previous)}
+              format={card.compare.format}
+              lowerIsBetter={card.compare.lowerIsBetter}
+            />
+          )}
+        </article>
+      ))}
+    </>
+  );
+}
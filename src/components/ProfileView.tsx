@@ -0,0 +1,113 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { NewPasswordForm } from "./NewPasswordForm";
+
+type ProfileViewProps = {
+  /** Null in local mode, where there is no account. */
+  email: string | null;
+  /** Requested address that has not been confirmed yet. */
+  pendingEmail: string | null;
+  onChangeEmail: (email: string) => Promise<void>;
+  onChangePassword: (password: string) => Promise<void>;
+};
+
+export function ProfileView({
+  email,
+  pendingEmail,
+  onChangeEmail,
+  onChangePassword
+}: ProfileViewProps) {
+  const [newEmail, setNewEmail] = useState("");
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleEmailSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const nextEmail = newEmail.trim();
+    setNotice("");
+    if (!nextEmail || nextEmail === email) {
+      setError("現在と異なるメールアドレスを入力してください。");
+      return;
+    }
+
+    setIsSaving(true);
+    setError("");
+    try {
+      await onChangeEmail(nextEmail);
+      setNewEmail("");
+      setNotice(
+        "確認メールを送信しました。メール内のリンクを開くと変更が完了します。"
+      );
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : "メールアドレスの変更に失敗しました。"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <main className="form-page">
+      <section className="panel form-panel">
+        <div>
+          <h2>アカウント設定</h2>
+        </div>
+        {email === null ? (
+          <p className="empty-state">
+            ローカル保存モードではアカウント設定は利用できません。
+          </p>
+        ) : (
+          <>
+            <div className="profile-section">
+              <h3>メールアドレス</h3>
+              <p className="panel-description">
+                現在のアドレス: {email}
+                {pendingEmail && (
+                  <>
+                    <br />
+                    {pendingEmail} への変更を確認待ちです。
+                  </>
+                )}
+              </p>
+              <form className="auth-form" onSubmit={handleEmailSubmit}>
+                <div className="form-row">
+                  <label htmlFor="newEmail">新しいメールアドレス</label>
+                  <input
+                    id="newEmail"
+                    type="email"
+                    autoComplete="email"
+                    placeholder="you@example.com"
+                    value={newEmail}
+                    onChange={(event) => setNewEmail(event.target.value)}
+                    required
+                  />
+                </div>
+                {error && <p className="form-error">{error}</p>}
+                {notice && <p className="form-notice">{notice}</p>}
+                <div className="auth-actions">
+                  <button
+                    type="submit"
+                    className="submit-button"
+                    disabled={isSaving}>
+                    {isSaving ? "送信中..." : "確認メールを送信"}
+                  </button>
+                </div>
+              </form>
+            </div>
+            <div className="profile-section">
+              <h3>パスワード</h3>
+              <NewPasswordForm
+                submitLabel="パスワードを変更"
+                onSubmit={onChangePassword}
+              />
+            </div>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,31 @@
+type RemoteChangeNoticeProps = {
+  count: number;
+  /** The entry open in the edit form is one of the changed ones. */
+  affectsEditedEntry: boolean;
+  onDismiss: () => void;
+};
+
+/** Shown over an open modal when other tabs or devices change entries. */
+export function RemoteChangeNotice({
+  count,
+  affectsEditedEntry,
+  onDismiss
+}: RemoteChangeNoticeProps) {
+  return (
+    <div className="remote-change-notice" role="status">
+      <span className="remote-change-dot" aria-hidden="true" />
+      <span>
+        {affectsEditedEntry
+          ? "編集中の記録が別のタブまたは端末で更新されました。保存するとその変更は上書きされます。"
+          : `別のタブまたは端末で ${count} 件の記録が更新されました。`}
+      </span>
+      <button
+        type="button"
+        className="remote-change-dismiss"
+        onClick={onDismiss}
+        aria-label="閉じる">
+        ✕
+      </button>
+    </div>
+  );
+}
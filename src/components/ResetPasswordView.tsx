@@ -0,0 +1,22 @@
+import { NewPasswordForm } from "./NewPasswordForm";
+
+type ResetPasswordViewProps = {
+  onSubmit: (password: string) => Promise<void>;
+};
+
+/** Reached from the reset email, which signs in with a recovery session. */
+export function ResetPasswordView({ onSubmit }: ResetPasswordViewProps) {
+  return (
+    <main className="auth-page">
+      <section className="panel auth-panel">
+        <div>
+          <h2>パスワード再設定</h2>
+          <p className="panel-description">
+            新しいパスワードを設定してください。設定後はそのまま日記を利用できます。
+          </p>
+        </div>
+        <NewPasswordForm submitLabel="パスワードを設定" onSubmit={onSubmit} />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { diffLines, diffSnapshots } from "../lib/revisions";
+import { snapshotOf } from "../lib/tradeRepository";
+import type { TradeRevision } from "../lib/tradeRepository";
+import type { Tag, TradeEntry } from "../types";
+
+const revisionDateFormatter = new Intl.DateTimeFormat("ja-JP", {
+  dateStyle: "medium",
+  timeStyle: "short"
+});
+
+type RevisionHistoryProps = {
+  entry: TradeEntry;
+  tagsById: Map<string, Tag>;
+  loadRevisions: (tradeId: string) => Promise<TradeRevision[]>;
+  onRestore: (revision: TradeRevision) => Promise<void>;
+};
+
+/**
+ * Each revision holds the entry as it was before one edit, so the version
+ * after it is the next newer revision, or the current entry for the latest.
+ */
+export function RevisionHistory({
+  entry,
+  tagsById,
+  loadRevisions,
+  onRestore
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<TradeRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Reloads after every save, including restores made from this panel.
+  useEffect(() => {
+    let isCancelled = false;
+    loadRevisions(entry.id)
+      .then((loaded) => {
+        if (!isCancelled) {
+          setRevisions(loaded);
+          setError("");
+        }
+      })
+      .catch((loadError) => {
+        if (!isCancelled) {
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "編集履歴の取得に失敗しました。"
+          );
+        }
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [entry.id, entry.updatedAt, loadRevisions]);
+
+  const handleRestore = async (revision: TradeRevision) => {
+    const confirmed = window.confirm(
+      "この編集の前の内容に戻しますか？現在の内容も履歴に残ります。"
+    );
+    if (!confirmed) {
+      return;
+    }
+    setIsRestoring(true);
+    setError("");
+    try {
+      await onRestore(revision);
+      setSelectedId(null);
+    } catch (restoreError) {
+      setError(
+        restoreError instanceof Error
+          ? restoreError.message
+          : "履歴の復元に失敗しました。"
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <section className="revision-history">
+      <h4>編集履歴</h4>
+      {error && <p className="form-error">{error}</p>}
+      {revisions === null ? (
+        !error && <p className="revision-empty">読み込み中...</p>
+      ) : !revisions.length ? (
+        <p className="revision-empty">まだ編集されていません。</p>
+      ) : (
+        <ol className="revision-list">
+          {revisions.map((revision, index) => {
+            const after =
+              index === 0
+                ? snapshotOf(entry)
+                : revisions[index - 1].snapshot;
+            const changes = diffSnapshots(revision.snapshot, after, tagsById);
+            const isSelected = selectedId === revision.id;
+
+            return (
+              <li key={revision.id} className="revision-item">
+                <button
+                  type="button"
+                  className={`revision-toggle ${isSelected ? "active" : ""}`}
+                  aria-expanded={isSelected}
+                  onClick={() => setSelectedId(isSelected ? null : revision.id)}>
+                  <time dateTime={revision.createdAt}>
+                    {revisionDateFormatter.format(new Date(revision.createdAt))}
+                  </time>
+                  <span className="revision-fields">
+                    {changes.length
+                      ? changes.map((change) => change.label).join("・")
+                      : "変更なし"}
+                  </span>
+                </button>
+
+                {isSelected && (
+                  <div className="revision-diff">
+                    {changes.map((change) => (
+                      <div key={change.field} className="revision-diff-field">
+                        <h5>{change.label}</h5>
+                        <table className="revision-diff-table">
+                          <thead>
+                            <tr>
+                              <th scope="col">変更前</th>
+                              <th scope="col">変更後</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {diffLines(change.before, change.after).map(
+                              (row, position) => {
+                                const isChanged = row.left !== row.right;
+                                return (
+                                  <tr key={position}>
+                                    <td
+                                      className={
+                                        row.left === null
+                                          ? "placeholder"
+                                          : isChanged
+                                            ? "removed"
+                                            : ""
+                                      }>
+                                      {row.left || " "}
+                                    </td>
+                                    <td
+                                      className={
+                                        row.right === null
+                                          ? "placeholder"
+                                          : isChanged
+                                            ? "added"
+                                            : ""
+                                      }>
+                                      {row.right || " "}
+                                    </td>
+                                  </tr>
+                                );
+                              }
+                            )}
+                          </tbody>
+                        </table>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      className="secondary-button"
+                      onClick={() => handleRestore(revision)}
+                      disabled={isRestoring}>
+                      {isRestoring ? "復元中…" : "この編集の前の内容に戻す"}
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { useImageUrl } from "../lib/imageUrls";
+
+/** Start signing a little before the image scrolls into view. */
+const VIEWPORT_MARGIN = "300px";
+
+type StoredImageProps = {
+  path: string;
+  alt: string;
+  className?: string;
+};
+
+/**
+ * Screenshot from storage. The URL is requested only once the image is near
+ * the viewport and is re-signed by the shared cache before it expires.
+ */
+export function StoredImage({ path, alt, className }: StoredImageProps) {
+  const [element, setElement] = useState<Element | null>(null);
+  const [isNearViewport, setIsNearViewport] = useState(false);
+  const url = useImageUrl(path, isNearViewport);
+
+  useEffect(() => {
+    if (!element || isNearViewport) {
+      return;
+    }
+    if (typeof IntersectionObserver === "undefined") {
+      setIsNearViewport(true);
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (records) => {
+        if (records.some((record) => record.isIntersecting)) {
+          setIsNearViewport(true);
+        }
+      },
+      { rootMargin: VIEWPORT_MARGIN }
+    );
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+    };
+  }, [element, isNearViewport]);
+
+  return url ? (
+    <img ref={setElement} src={url} alt={alt} className={className} />
+  ) : (
+    <span
+      ref={setElement}
+      className={`stored-image-placeholder ${className ?? ""}`}
+      role="img"
+      aria-label={alt}
+    />
+  );
+}
@@ -0,0 +1,105 @@
+import type { TagPerformance } from "../lib/analytics";
+import type { Tag } from "../types";
+
+const formatter = new Intl.NumberFormat("ja-JP", { maximumFractionDigits: 0 });
+const percentFormatter = new Intl.NumberFormat("ja-JP", {
+  style: "percent",
+  maximumFractionDigits: 1
+});
+
+type TagPerformanceTableProps = {
+  tags: Tag[];
+  performances: TagPerformance[];
+  selectedTagId: string | null;
+  onSelectTag: (tagId: string | null) => void;
+};
+
+export function TagPerformanceTable({
+  tags,
+  performances,
+  selectedTagId,
+  onSelectTag
+}: TagPerformanceTableProps) {
+  return (
+    <div className="tag-performance">
+      <div className="tag-filter">
+        <span className="tag-filter-label">タグで絞り込み</span>
+        <div
+          className="tag-filter-buttons"
+          role="group"
+          aria-label="タグで絞り込む">
+          <button
+            type="button"
+            className={`tag-chip ${selectedTagId === null ? "active" : ""}`}
+            onClick={() => onSelectTag(null)}
+            aria-pressed={selectedTagId === null}>
+            全て
+          </button>
+          {tags.map((tag) => {
+            const isActive = selectedTagId === tag.id;
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                className={`tag-chip ${isActive ? "active" : ""}`}
+                onClick={() => onSelectTag(isActive ? null : tag.id)}
+                aria-pressed={isActive}>
+                {tag.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <h3 className="tag-performance-title">タグ別成績</h3>
+      {!performances.length ? (
+        <p className="empty-state">
+          タグ付きの記録がこの期間にはまだありません。
+        </p>
+      ) : (
+        <table className="tag-performance-table">
+          <thead>
+            <tr>
+              <th scope="col">タグ</th>
+              <th scope="col">件数</th>
+              <th scope="col">累計損益</th>
+              <th scope="col">勝率</th>
+              <th scope="col">平均損益</th>
+            </tr>
+          </thead>
+          <tbody>
+            {performances.map((performance) => (
+              <tr
+                key={performance.tag.id}
+                className={
+                  selectedTagId === performance.tag.id ? "active" : ""
+                }>
+                <th scope="row">{performance.tag.name}</th>
+                <td>{performance.totalTrades}</td>
+                <td
+                  className={
+                    performance.totalProfit >= 0 ? "positive" : "negative"
+                  }>
+                  {formatter.format(performance.totalProfit)}円
+                </td>
+                <td>
+                  {performance.winSampleCount
+                    ? percentFormatter.format(performance.winRate)
+                    : "—"}
+                </td>
+                <td
+                  className={
+                    performance.averageProfit >= 0 ? "positive" : "negative"
+                  }>
+                  {performance.winSampleCount
+                    ? `${formatter.format(performance.averageProfit)}円`
+                    : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { Tag } from "../types";
+
+type TagPickerProps = {
+  tags: Tag[];
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+};
+
+export function TagPicker({ tags, selectedIds, onChange }: TagPickerProps) {
+  if (!tags.length) {
+    return (
+      <p className="tag-picker-empty">
+        タグはまだありません。「タグ設定」から追加できます。
+      </p>
+    );
+  }
+
+  return (
+    <div className="tag-picker" role="group" aria-label="タグ">
+      {tags.map((tag) => {
+        const isSelected = selectedIds.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            className={`tag-chip ${isSelected ? "active" : ""}`}
+            aria-pressed={isSelected}
+            onClick={() =>
+              onChange(
+                isSelected
+                  ? selectedIds.filter((id) => id !== tag.id)
+                  : [...selectedIds, tag.id]
+              )
+            }>
+            {tag.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import type { Tag } from "../types";
+
+type TagSettingsViewProps = {
+  isLoggedIn: boolean;
+  tags: Tag[];
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+};
+
+export function TagSettingsView({
+  isLoggedIn,
+  tags,
+  onCreate,
+  onRename,
+  onDelete
+}: TagSettingsViewProps) {
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError("");
+    try {
+      await action();
+      return true;
+    } catch (actionError) {
+      setError(
+        actionError instanceof Error
+          ? actionError.message
+          : "タグの保存に失敗しました。"
+      );
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) {
+      return;
+    }
+    if (await run(() => onCreate(name))) {
+      setNewName("");
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    const name = editingName.trim();
+    if (!name) {
+      setError("タグ名を入力してください。");
+      return;
+    }
+    if (await run(() => onRename(id, name))) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    const confirmed = window.confirm(
+      `タグ「${tag.name}」を削除しますか？`
+    );
+    if (confirmed) {
+      await run(() => onDelete(tag.id));
+    }
+  };
+
+  return (
+    <main className="form-page">
+      <section className="panel form-panel">
+        <div>
+          <h2>タグ設定</h2>
+        </div>
+        <p className="panel-description">
+          「ブレイクアウト」「押し目」などのセットアップをタグとして登録し、日記に付けて成績を比較できます。
+        </p>
+        {!isLoggedIn ? (
+          <p className="empty-state">
+            タグを管理するにはログインしてください。
+          </p>
+        ) : (
+          <>
+            <form className="tag-create-form" onSubmit={handleCreate}>
+              <input
+                type="text"
+                className="tag-name-input"
+                placeholder="例: ブレイクアウト"
+                maxLength={40}
+                value={newName}
+                onChange={(event) => setNewName(event.target.value)}
+                aria-label="新しいタグ名"
+              />
+              <button
+                type="submit"
+                className="submit-button"
+                disabled={isSaving || !newName.trim()}>
+                追加
+              </button>
+            </form>
+
+            {error && <p className="form-error">{error}</p>}
+
+            {!tags.length ? (
+              <p className="empty-state">タグはまだありません。</p>
+            ) : (
+              <ul className="tag-settings-list">
+                {tags.map((tag) => (
+                  <li key={tag.id} className="tag-settings-item">
+                    {editingId === tag.id ? (
+                      <>
+                        <input
+                          type="text"
+                          className="tag-name-input"
+                          maxLength={40}
+                          value={editingName}
+                          onChange={(event) =>
+                            setEditingName(event.target.value)
+                          }
+                          aria-label="タグ名"
+                        />
+                        <button
+                          type="button"
+                          className="entry-edit-button"
+                          onClick={() => handleRename(tag.id)}
+                          disabled={isSaving}>
+                          保存
+                        </button>
+                        <button
+                          type="button"
+                          className="entry-edit-button"
+                          onClick={() => setEditingId(null)}>
+                          キャンセル
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <span className="tag-chip active">{tag.name}</span>
+                        <button
+                          type="button"
+                          className="entry-edit-button"
+                          onClick={() => {
+                            setEditingId(tag.id);
+                            setEditingName(tag.name);
+                          }}>
+                          名前を変更
+                        </button>
+                        <button
+                          type="button"
+                          className="entry-delete-button"
+                          onClick={() => handleDelete(tag)}
+                          disabled={isSaving}>
+                          削除
+                        </button>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
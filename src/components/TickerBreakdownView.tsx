@@ -0,0 +1,242 @@
+import { useMemo, useState } from "react";
+import { summarizeByTicker } from "../lib/analytics";
+import type { TickerPerformance } from "../lib/analytics";
+import { SIDE_LABELS } from "../lib/position";
+import type { TickerTotal } from "../lib/tradeRepository";
+import type { TradeEntry } from "../types";
+
+const yenFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 0
+});
+const percentFormatter = new Intl.NumberFormat("ja-JP", {
+  style: "percent",
+  maximumFractionDigits: 1
+});
+
+type SortKey =
+  | "ticker"
+  | "totalTrades"
+  | "totalProfit"
+  | "averageProfit"
+  | "winRate"
+  | "lastTradeDate";
+
+type SortState = { key: SortKey; direction: "asc" | "desc" };
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: "ticker", label: "銘柄" },
+  { key: "totalTrades", label: "件数" },
+  { key: "totalProfit", label: "累計損益" },
+  { key: "averageProfit", label: "平均損益" },
+  { key: "winRate", label: "勝率" },
+  { key: "lastTradeDate", label: "最終取引日" }
+];
+
+const compareBy =
+  (key: SortKey) => (a: TickerPerformance, b: TickerPerformance) =>
+    key === "ticker" || key === "lastTradeDate"
+      ? a[key].localeCompare(b[key], "ja", { numeric: true })
+      : a[key] - b[key];
+
+const formatYen = (value: number) => `${yenFormatter.format(value)}円`;
+
+type TickerBreakdownViewProps = {
+  isLoggedIn: boolean;
+  /** Null until the totals have loaded. */
+  totals: TickerTotal[] | null;
+  error: string;
+  selectedTicker: string | null;
+  /** Trades of the selected ticker, newest first. */
+  history: TradeEntry[];
+  onSelectTicker: (ticker: string | null) => void;
+};
+
+export function TickerBreakdownView({
+  isLoggedIn,
+  totals,
+  error,
+  selectedTicker,
+  history,
+  onSelectTicker
+}: TickerBreakdownViewProps) {
+  const [sort, setSort] = useState<SortState>({
+    key: "totalProfit",
+    direction: "desc"
+  });
+
+  const rows = useMemo(() => {
+    const sorted = summarizeByTicker(totals ?? []).sort(compareBy(sort.key));
+    return sort.direction === "asc" ? sorted : sorted.reverse();
+  }, [totals, sort]);
+
+  const selected = rows.find((row) => row.ticker === selectedTicker) ?? null;
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) =>
+      prev.key === key
+        ? { key, direction: prev.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "ticker" ? "asc" : "desc" }
+    );
+  };
+
+  if (!isLoggedIn) {
+    return (
+      <main className="ticker-page">
+        <section className="panel">
+          <p className="empty-state">
+            銘柄別の成績を見るにはログインしてください。
+          </p>
+        </section>
+      </main>
+    );
+  }
+
+  if (selected) {
+    return (
+      <main className="ticker-page">
+        <section className="panel ticker-history-panel">
+          <div className="ticker-history-header">
+            <button
+              type="button"
+              className="secondary-button"
+              onClick={() => onSelectTicker(null)}>
+              ‹ 銘柄一覧に戻る
+            </button>
+            <div>
+              <h2>
+                {selected.ticker} {selected.tickerName}
+              </h2>
+              <p className="panel-description">
+                {selected.totalTrades} 件 / 累計{" "}
+                <span
+                  className={
+                    selected.totalProfit < 0 ? "negative" : "positive"
+                  }>
+                  {formatYen(selected.totalProfit)}
+                </span>{" "}
+                / 勝率{" "}
+                {selected.winSampleCount
+                  ? percentFormatter.format(selected.winRate)
+                  : "—"}
+              </p>
+            </div>
+          </div>
+
+          <ol className="ticker-history">
+            {history.map((entry) => (
+              <li key={entry.id} className="ticker-history-item">
+                <header className="ticker-history-item-header">
+                  <time>{entry.tradeDate}</time>
+                  {entry.side && <span>{SIDE_LABELS[entry.side]}</span>}
+                  <strong
+                    className={
+                      (entry.realizedProfit ?? 0) < 0 ? "negative" : "positive"
+                    }>
+                    {entry.realizedProfit !== null
+                      ? formatYen(entry.realizedProfit)
+                      : "—"}
+                  </strong>
+                </header>
+                {entry.reason && (
+                  <section className="entry-note">
+                    <h4>売買理由</h4>
+                    <pre className="entry-note-text">{entry.reason}</pre>
+                  </section>
+                )}
+                {entry.reflection && (
+                  <section className="entry-note">
+                    <h4>振り返り</h4>
+                    <pre className="entry-note-text">{entry.reflection}</pre>
+                  </section>
+                )}
+                {!entry.reason && !entry.reflection && (
+                  <p className="ticker-history-empty">
+                    売買理由・振り返りは未記入です。
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </section>
+      </main>
+    );
+  }
+
+  return (
+    <main className="ticker-page">
+      <section className="panel">
+        <div>
+          <h2>銘柄別成績</h2>
+        </div>
+        {error ? (
+          <p className="empty-state">{error}</p>
+        ) : !totals ? (
+          <p className="empty-state">読み込み中...</p>
+        ) : !rows.length ? (
+          <p className="empty-state">記録はまだありません。</p>
+        ) : (
+          <div className="ticker-table-wrapper">
+            <table className="ticker-table">
+              <thead>
+                <tr>
+                  {COLUMNS.map((column) => (
+                    <th
+                      key={column.key}
+                      scope="col"
+                      aria-sort={
+                        sort.key === column.key
+                          ? sort.direction === "asc"
+                            ? "ascending"
+                            : "descending"
+                          : "none"
+                      }>
+                      <button
+                        type="button"
+                        className="ticker-sort-button"
+                        onClick={() => toggleSort(column.key)}>
+                        {column.label}
+                        {sort.key === column.key &&
+                          (sort.direction === "asc" ? " ▲" : " ▼")}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.ticker}>
+                    <th scope="row">
+                      <button
+                        type="button"
+                        className="ticker-link"
+                        onClick={() => onSelectTicker(row.ticker)}>
+                        <span className="entry-ticker">{row.ticker}</span>
+                        <span className="entry-ticker-name">
+                          {row.tickerName || "—"}
+                        </span>
+                      </button>
+                    </th>
+                    <td>{row.totalTrades}</td>
+                    <td className={row.totalProfit < 0 ? "negative" : "positive"}>
+                      {formatYen(row.totalProfit)}
+                    </td>
+                    <td
+                      className={row.averageProfit < 0 ? "negative" : "positive"}>
+                      {row.winSampleCount ? formatYen(row.averageProfit) : "—"}
+                    </td>
+                    <td>
+                      {row.winSampleCount
+                        ? percentFormatter.format(row.winRate)
+                        : "—"}
+                    </td>
+                    <td>{row.lastTradeDate}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
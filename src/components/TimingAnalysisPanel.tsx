@@ -0,0 +1,93 @@
+import {
+  summarizeByHoldingTime,
+  summarizeBySessionSlot
+} from "../lib/analytics";
+import type { BucketPerformance } from "../lib/analytics";
+import type { TimingTotal } from "../lib/tradeRepository";
+
+const yenFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 0
+});
+const percentFormatter = new Intl.NumberFormat("ja-JP", {
+  style: "percent",
+  maximumFractionDigits: 0
+});
+
+type BucketTableProps = {
+  title: string;
+  rows: BucketPerformance[];
+  emptyMessage: string;
+};
+
+function BucketTable({ title, rows, emptyMessage }: BucketTableProps) {
+  // Bars are scaled to the largest absolute total so gains and losses compare.
+  const maxAbs = Math.max(1, ...rows.map((row) => Math.abs(row.totalProfit)));
+
+  return (
+    <div className="timing-table-block">
+      <h3 className="timing-table-title">{title}</h3>
+      {!rows.length ? (
+        <p className="empty-state">{emptyMessage}</p>
+      ) : (
+        <table className="timing-table">
+          <thead>
+            <tr>
+              <th scope="col">区分</th>
+              <th scope="col">件数</th>
+              <th scope="col">勝率</th>
+              <th scope="col">累計損益</th>
+              <th scope="col" aria-label="損益バー" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.bucket.key}>
+                <th scope="row">{row.bucket.label}</th>
+                <td>{row.totalTrades}</td>
+                <td>
+                  {row.winSampleCount
+                    ? percentFormatter.format(row.winRate)
+                    : "—"}
+                </td>
+                <td className={row.totalProfit < 0 ? "negative" : "positive"}>
+                  {yenFormatter.format(row.totalProfit)}円
+                </td>
+                <td className="timing-bar-cell">
+                  <span
+                    className={`timing-bar ${
+                      row.totalProfit < 0 ? "negative" : "positive"
+                    }`}
+                    style={{
+                      width: `${(Math.abs(row.totalProfit) / maxAbs) * 100}%`
+                    }}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+type TimingAnalysisPanelProps = {
+  totals: TimingTotal[];
+};
+
+export function TimingAnalysisPanel({ totals }: TimingAnalysisPanelProps) {
+  return (
+    <div className="timing-analysis">
+      <BucketTable
+        title="エントリー時間帯別 (30分)"
+        rows={summarizeBySessionSlot(totals)}
+        emptyMessage="エントリー時刻が入力された記録がありません。"
+      />
+      <BucketTable
+        title="保有時間別"
+        rows={summarizeByHoldingTime(totals)}
+        emptyMessage="エントリー・決済の両方の時刻がある記録がありません。"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { formatFill } from "../lib/fills";
+import { viewerImagesOf } from "../lib/images";
+import { SIDE_LABELS, perShareMove, returnRate } from "../lib/position";
+import { formatHoldingTime, holdingMinutes } from "../lib/timing";
+import type { TradeRevision } from "../lib/tradeRepository";
+import type { Tag, TradeEntry } from "../types";
+import { RevisionHistory } from "./RevisionHistory";
+import { StoredImage } from "./StoredImage";
+
+const yenFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 0
+});
+const priceFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 2
+});
+const signedPercentFormatter = new Intl.NumberFormat("ja-JP", {
+  style: "percent",
+  maximumFractionDigits: 2,
+  signDisplay: "exceptZero"
+});
+
+type TradeDetailViewProps = {
+  isLoggedIn: boolean;
+  isLoading: boolean;
+  /** Null when the id in the URL does not match a loaded entry. */
+  entry: TradeEntry | null;
+  tagsById: Map<string, Tag>;
+  onBack: () => void;
+  onEdit: (entry: TradeEntry) => void;
+  onDelete: (entry: TradeEntry) => void;
+  onOpenImage: (entry: TradeEntry, index: number) => void;
+  loadRevisions: (tradeId: string) => Promise<TradeRevision[]>;
+  onRestoreRevision: (
+    entry: TradeEntry,
+    revision: TradeRevision
+  ) => Promise<void>;
+};
+
+export function TradeDetailView({
+  isLoggedIn,
+  isLoading,
+  entry,
+  tagsById,
+  onBack,
+  onEdit,
+  onDelete,
+  onOpenImage,
+  loadRevisions,
+  onRestoreRevision
+}: TradeDetailViewProps) {
+  if (!isLoggedIn || isLoading || !entry) {
+    return (
+      <main className="trade-detail-page">
+        <section className="panel">
+          <p className="empty-state">
+            {!isLoggedIn
+              ? "取引の詳細を見るにはログインしてください。"
+              : isLoading
+              ? "読み込み中..."
+              : "この取引は見つかりませんでした。削除された可能性があります。"}
+          </p>
+          <button type="button" className="secondary-button" onClick={onBack}>
+            ‹ 取引履歴に戻る
+          </button>
+        </section>
+      </main>
+    );
+  }
+
+  const move = perShareMove(entry);
+  const rate = returnRate(entry);
+  const holding = holdingMinutes(entry);
+  const tags = entry.tagIds.flatMap((id) => tagsById.get(id) ?? []);
+  const images = viewerImagesOf(entry);
+
+  return (
+    <main className="trade-detail-page">
+      <section className="panel trade-detail-panel">
+        <div className="trade-detail-header">
+          <button type="button" className="secondary-button" onClick={onBack}>
+            ‹ 取引履歴に戻る
+          </button>
+          <div className="entry-header-actions">
+            <button
+              type="button"
+              className="entry-edit-button"
+              onClick={() => onEdit(entry)}>
+              編集
+            </button>
+            <button
+              type="button"
+              className="entry-delete-button"
+              onClick={() => onDelete(entry)}>
+              削除
+            </button>
+          </div>
+        </div>
+
+        <header className="entry-header">
+          <div className="entry-title">
+            <span className="entry-ticker">{entry.ticker || "—"}</span>
+            <span className="entry-ticker-name">{entry.tickerName || "—"}</span>
+          </div>
+          <time className="entry-date">{entry.tradeDate}</time>
+        </header>
+
+        <dl className="entry-stats">
+          <div>
+            <dt>損益</dt>
+            <dd
+              className={
+                (entry.realizedProfit ?? 0) < 0 ? "negative" : "positive"
+              }>
+              {entry.realizedProfit !== null
+                ? `${yenFormatter.format(entry.realizedProfit)}円`
+                : "—"}
+            </dd>
+          </div>
+          {entry.side && (
+            <div>
+              <dt>売買</dt>
+              <dd>{SIDE_LABELS[entry.side]}</dd>
+            </div>
+          )}
+          {entry.entryPrice !== null && (
+            <div>
+              <dt>建値 → 決済</dt>
+              <dd>
+                {priceFormatter.format(entry.entryPrice)} →{" "}
+                {entry.exitPrice !== null
+                  ? priceFormatter.format(entry.exitPrice)
+                  : "—"}
+              </dd>
+            </div>
+          )}
+          {entry.quantity !== null && (
+            <div>
+              <dt>数量</dt>
+              <dd>{priceFormatter.format(entry.quantity)}株</dd>
+            </div>
+          )}
+          {entry.commission !== null && (
+            <div>
+              <dt>手数料</dt>
+              <dd>{yenFormatter.format(entry.commission)}円</dd>
+            </div>
+          )}
+          {(entry.entryTime || entry.exitTime) && (
+            <div>
+              <dt>時刻</dt>
+              <dd>
+                {entry.entryTime ?? "—"} → {entry.exitTime ?? "—"}
+                {holding !== null && ` (${formatHoldingTime(holding)})`}
+              </dd>
+            </div>
+          )}
+          {move !== null && (
+            <div>
+              <dt>値幅 (1株)</dt>
+              <dd className={move < 0 ? "negative" : "positive"}>
+                {move > 0 ? "+" : ""}
+                {priceFormatter.format(move)}円
+              </dd>
+            </div>
+          )}
+          {rate !== null && (
+            <div>
+              <dt>騰落率</dt>
+              <dd className={rate < 0 ? "negative" : "positive"}>
+                {signedPercentFormatter.format(rate)}
+              </dd>
+            </div>
+          )}
+        </dl>
+
+        {tags.length > 0 && (
+          <ul className="entry-tags" aria-label="タグ">
+            {tags.map((tag) => (
+              <li key={tag.id} className="tag-chip">
+                {tag.name}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {entry.fills.length > 0 && (
+          <ol className="fill-timeline" aria-label="約定の流れ">
+            {entry.fills.map((fill) => (
+              <li key={fill.id} className={`fill-chip ${fill.side}`}>
+                {formatFill(fill)}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {entry.reason && (
+          <section className="entry-note">
+            <h4>売買理由</h4>
+            <pre className="entry-note-text">{entry.reason}</pre>
+          </section>
+        )}
+
+        {entry.reflection && (
+          <section className="entry-note">
+            <h4>振り返り</h4>
+            <pre className="entry-note-text">{entry.reflection}</pre>
+          </section>
+        )}
+
+        {images.length > 0 && (
+          <div className="entry-images">
+            {images.map((image, index) => (
+              <figure key={image.path} className="entry-image">
+                <button
+                  type="button"
+                  className="entry-image-button"
+                  onClick={() => onOpenImage(entry, index)}>
+                  <StoredImage path={image.path} alt={image.alt} />
+                </button>
+              </figure>
+            ))}
+          </div>
+        )}
+
+        <RevisionHistory
+          entry={entry}
+          tagsById={tagsById}
+          loadRevisions={loadRevisions}
+          onRestore={(revision) => onRestoreRevision(entry, revision)}
+        />
+      </section>
+    </main>
+  );
+}
@@ -1,18 +1,37 @@
-import type { ChangeEvent, FormEvent, RefObject } from "react";
-import type { FormState } from "../types";
+import type { ChangeEvent, FormEvent } from "react";
+import { computeRealizedProfit, parsePositionInputs } from "../lib/position";
+import {
+  formatHoldingTime,
+  holdingMinutes,
+  parseTradeTimes
+} from "../lib/timing";
+import type { FillDraft, FormState, ImageDraft, Tag } from "../types";
+import { FillsEditor } from "./FillsEditor";
+import { ImageAttachments } from "./ImageAttachments";
+import { TagPicker } from "./TagPicker";
+
+const profitFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 0
+});
+
+const formatAverage = (value: number | null) =>
+  value === null
+    ? "—"
+    : new Intl.NumberFormat("ja-JP", { maximumFractionDigits: 2 }).format(value);
 
 type TradeFormProps = {
   isLoggedIn: boolean;
   formState: FormState;
-  imageFile: File | null;
+  tags: Tag[];
   isSubmitting: boolean;
   formError: string;
   maxDate: string;
-  fileInputRef: RefObject<HTMLInputElement | null>;
   onInputChange: (
     event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => void;
-  onImageChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onFillsChange: (fills: FillDraft[]) => void;
+  onTagsChange: (tagIds: string[]) => void;
+  onImagesChange: (images: ImageDraft[]) => void;
   onSubmit: (event: FormEvent<HTMLFormElement>) => void;
   onCancel: () => void;
 };
@@ -20,16 +39,26 @@ type TradeFormProps = {
 export function TradeForm({
   isLoggedIn,
   formState,
-  imageFile,
+  tags,
   isSubmitting,
   formError,
   maxDate,
-  fileInputRef,
   onInputChange,
-  onImageChange,
+  onFillsChange,
+  onTagsChange,
+  onImagesChange,
   onSubmit,
   onCancel
 }: TradeFormProps) {
+  const position = parsePositionInputs(formState);
+  const computedProfit = position.fields
+    ? computeRealizedProfit(position.fields)
+    : null;
+  // With fills, side, prices and quantity are derived from the legs.
+  const hasFills = formState.fills.length > 0;
+  const timing = parseTradeTimes(formState, position.fields?.fills ?? []);
+  const holding = timing.times ? holdingMinutes(timing.times) : null;
+
   return (
     <main className="form-page">
       <section className="panel form-panel">
@@ -81,6 +110,149 @@ export function TradeForm({
                   />
                 </div>
 
+                <div className="form-row">
+                  <span className="form-row-label">売買区分</span>
+                  <div
+                    className="side-toggle"
+                    role="radiogroup"
+                    aria-label="売買区分">
+                    <label className="side-option">
+                      <input
+                        type="radio"
+                        name="side"
+                        value="long"
+                        checked={formState.side === "long"}
+                        onChange={onInputChange}
+                        disabled={hasFills}
+                      />
+                      買い
+                    </label>
+                    <label className="side-option">
+                      <input
+                        type="radio"
+                        name="side"
+                        value="short"
+                        checked={formState.side === "short"}
+                        onChange={onInputChange}
+                        disabled={hasFills}
+                      />
+                      売り (信用売り)
+                    </label>
+                  </div>
+                </div>
+
+                <div className="form-grid">
+                  <div className="form-row">
+                    <label htmlFor="entryPrice">建値 (円)</label>
+                    <input
+                      id="entryPrice"
+                      name="entryPrice"
+                      type="number"
+                      inputMode="decimal"
+                      step="0.1"
+                      min="0"
+                      placeholder="例: 3450"
+                      value={formState.entryPrice}
+                      onChange={onInputChange}
+                      disabled={hasFills}
+                    />
+                  </div>
+
+                  <div className="form-row">
+                    <label htmlFor="exitPrice">決済価格 (円)</label>
+                    <input
+                      id="exitPrice"
+                      name="exitPrice"
+                      type="number"
+                      inputMode="decimal"
+                      step="0.1"
+                      min="0"
+                      placeholder="例: 3480"
+                      value={formState.exitPrice}
+                      onChange={onInputChange}
+                      disabled={hasFills}
+                    />
+                  </div>
+
+                  <div className="form-row">
+                    <label htmlFor="quantity">数量 (株)</label>
+                    <input
+                      id="quantity"
+                      name="quantity"
+                      type="number"
+                      inputMode="numeric"
+                      step="1"
+                      min="1"
+                      placeholder="例: 100"
+                      value={formState.quantity}
+                      onChange={onInputChange}
+                      disabled={hasFills}
+                    />
+                  </div>
+
+                  <div className="form-row">
+                    <label htmlFor="commission">手数料 (円)</label>
+                    <input
+                      id="commission"
+                      name="commission"
+                      type="number"
+                      inputMode="decimal"
+                      step="1"
+                      min="0"
+                      placeholder="例: 0"
+                      value={formState.commission}
+                      onChange={onInputChange}
+                    />
+                  </div>
+                </div>
+
+                <div className="form-grid">
+                  <div className="form-row">
+                    <label htmlFor="entryTime">エントリー時刻</label>
+                    <input
+                      id="entryTime"
+                      name="entryTime"
+                      type="time"
+                      value={formState.entryTime}
+                      onChange={onInputChange}
+                    />
+                  </div>
+
+                  <div className="form-row">
+                    <label htmlFor="exitTime">決済時刻</label>
+                    <input
+                      id="exitTime"
+                      name="exitTime"
+                      type="time"
+                      value={formState.exitTime}
+                      onChange={onInputChange}
+                    />
+                  </div>
+                </div>
+                {holding !== null && (
+                  <small className="form-hint">
+                    保有時間 {formatHoldingTime(holding)}
+                    {hasFills && " (空欄の時刻は約定から補完)"}
+                  </small>
+                )}
+
+                <div className="form-row">
+                  <span className="form-row-label">
+                    約定 (分割エントリー・決済)
+                  </span>
+                  <FillsEditor
+                    fills={formState.fills}
+                    onChange={onFillsChange}
+                  />
+                  {hasFills && position.fields && (
+                    <small className="form-hint">
+                      平均建値 {formatAverage(position.fields.entryPrice)} /
+                      平均決済 {formatAverage(position.fields.exitPrice)} / 数量{" "}
+                      {position.fields.quantity ?? "—"}株
+                    </small>
+                  )}
+                </div>
+
                 <div className="form-row">
                   <label htmlFor="realizedProfit">損益 (円)</label>
                   <input
@@ -89,31 +261,39 @@ export function TradeForm({
                     type="number"
                     inputMode="decimal"
                     step="0.01"
-                    placeholder="実現損益を記録 (任意)"
+                    placeholder={
+                      computedProfit !== null
+                        ? `自動計算: ${profitFormatter.format(computedProfit)}`
+                        : "実現損益を記録 (任意)"
+                    }
                     value={formState.realizedProfit}
                     onChange={onInputChange}
                   />
+                  {computedProfit !== null && (
+                    <small className="form-hint">
+                      空欄の場合は価格・数量・手数料から計算した{" "}
+                      {profitFormatter.format(computedProfit)}円 を保存します。
+                    </small>
+                  )}
                 </div>
 
                 <div className="form-row">
-                  <label htmlFor="image">画像添付</label>
-                  <div className="file-upload">
-                    <label className="file-upload-trigger" htmlFor="image">
-                      ファイルを選択
-                    </label>
-                    <input
-                      id="image"
-                      name="image"
-                      type="file"
-                      accept="image/*"
-                      onChange={onImageChange}
-                      ref={fileInputRef}
-                      className="file-upload-input"
-                    />
-                    <span className="file-upload-name">
-                      {imageFile ? imageFile.name : '選択されていません'}
-                    </span>
-                  </div>
+                  <span className="form-row-label">タグ</span>
+                  <TagPicker
+                    tags={tags}
+                    selectedIds={formState.tagIds}
+                    onChange={onTagsChange}
+                  />
+                </div>
+
+                <div className="form-row">
+                  <label htmlFor="images">画像添付</label>
+                  <ImageAttachments
+                    id="images"
+                    images={formState.images}
+                    onChange={onImagesChange}
+                    disabled={isSubmitting}
+                  />
                 </div>
               </div>
 
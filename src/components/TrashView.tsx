@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { TRASH_RETENTION_DAYS, daysUntilPurge } from "../lib/trash";
+import type { TradeEntry } from "../types";
+
+const yenFormatter = new Intl.NumberFormat("ja-JP", {
+  maximumFractionDigits: 0
+});
+
+const deletedAtFormatter = new Intl.DateTimeFormat("ja-JP", {
+  dateStyle: "medium",
+  timeStyle: "short"
+});
+
+type TrashViewProps = {
+  isLoggedIn: boolean;
+  /** Most recently deleted first. */
+  entries: TradeEntry[];
+  onRestore: (entry: TradeEntry) => Promise<void>;
+  onPurge: (entries: TradeEntry[]) => Promise<void>;
+};
+
+export function TrashView({
+  isLoggedIn,
+  entries,
+  onRestore,
+  onPurge
+}: TrashViewProps) {
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError("");
+    try {
+      await action();
+    } catch (actionError) {
+      setError(
+        actionError instanceof Error
+          ? actionError.message
+          : "ゴミ箱の操作に失敗しました。"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePurge = async (entry: TradeEntry) => {
+    const confirmed = window.confirm(
+      `「${entry.ticker || entry.tradeDate}」を完全に削除しますか？この操作は取り消せません。`
+    );
+    if (confirmed) {
+      await run(() => onPurge([entry]));
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const confirmed = window.confirm(
+      `ゴミ箱の ${entries.length} 件を完全に削除しますか？この操作は取り消せません。`
+    );
+    if (confirmed) {
+      await run(() => onPurge(entries));
+    }
+  };
+
+  return (
+    <main className="form-page">
+      <section className="panel form-panel">
+        <div className="trash-heading">
+          <h2>ゴミ箱</h2>
+          {isLoggedIn && entries.length > 0 && (
+            <button
+              type="button"
+              className="entry-delete-button"
+              onClick={handleEmptyTrash}
+              disabled={isSaving}>
+              ゴミ箱を空にする
+            </button>
+          )}
+        </div>
+        <p className="panel-description">
+          削除した日記は {TRASH_RETENTION_DAYS}{" "}
+          日間ここに残り、その後画像とともに完全に削除されます。
+        </p>
+        {!isLoggedIn ? (
+          <p className="empty-state">
+            ゴミ箱を見るにはログインしてください。
+          </p>
+        ) : (
+          <>
+            {error && <p className="form-error">{error}</p>}
+
+            {!entries.length ? (
+              <p className="empty-state">ゴミ箱は空です。</p>
+            ) : (
+              <ul className="trash-list">
+                {entries.map((entry) => (
+                  <li key={entry.id} className="trash-item">
+                    <div className="trash-item-summary">
+                      <span className="entry-ticker">
+                        {entry.ticker || "—"}
+                      </span>
+                      <span className="entry-ticker-name">
+                        {entry.tickerName || "—"}
+                      </span>
+                      <time className="entry-date">{entry.tradeDate}</time>
+                      {entry.realizedProfit !== null && (
+                        <span
+                          className={
+                            entry.realizedProfit < 0 ? "negative" : "positive"
+                          }>
+                          {yenFormatter.format(entry.realizedProfit)}円
+                        </span>
+                      )}
+                    </div>
+                    <small className="trash-item-meta">
+                      {entry.deletedAt &&
+                        `${deletedAtFormatter.format(
+                          new Date(entry.deletedAt)
+                        )} に削除 · `}
+                      あと {daysUntilPurge(entry)} 日で完全に削除
+                    </small>
+                    <div className="trash-item-actions">
+                      <button
+                        type="button"
+                        className="entry-edit-button"
+                        onClick={() => run(() => onRestore(entry))}
+                        disabled={isSaving}>
+                        元に戻す
+                      </button>
+                      <button
+                        type="button"
+                        className="entry-delete-button"
+                        onClick={() => handlePurge(entry)}
+                        disabled={isSaving}>
+                        完全に削除
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
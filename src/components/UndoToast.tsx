@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+
+const AUTO_DISMISS_MS = 8000;
+
+type UndoToastProps = {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+};
+
+export function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [message, onDismiss]);
+
+  return (
+    <div className="undo-toast" role="status">
+      <span>{message}</span>
+      <button type="button" className="undo-toast-action" onClick={onUndo}>
+        元に戻す
+      </button>
+      <button
+        type="button"
+        className="undo-toast-close"
+        onClick={onDismiss}
+        aria-label="閉じる">
+        ✕
+      </button>
+    </div>
+  );
+}
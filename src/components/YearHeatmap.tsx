@@ -0,0 +1,147 @@
+import type { YearHeatmap as YearHeatmapData } from "../lib/analytics";
+
+const formatter = new Intl.NumberFormat("ja-JP", { maximumFractionDigits: 0 });
+const percentFormatter = new Intl.NumberFormat("ja-JP", {
+  style: "percent",
+  maximumFractionDigits: 1
+});
+
+const DAY_COLUMNS = Array.from({ length: 31 }, (_, index) => index + 1);
+
+/** Four intensity steps per sign, like a contribution graph. */
+const levelOf = (profit: number, maxAbs: number) =>
+  maxAbs ? Math.max(1, Math.ceil((Math.abs(profit) / maxAbs) * 4)) : 1;
+
+const toneOf = (value: number | null) =>
+  value === null
+    ? ""
+    : value > 0
+    ? "positive"
+    : value < 0
+    ? "negative"
+    : "neutral";
+
+type YearHeatmapProps = {
+  heatmap: YearHeatmapData;
+  onSelectMonth: (month: number) => void;
+};
+
+export function YearHeatmap({ heatmap, onSelectMonth }: YearHeatmapProps) {
+  const { summary } = heatmap;
+
+  return (
+    <>
+      <div className="calendar-summary">
+        <article className="calendar-summary-card">
+          <span className="calendar-summary-label">利益</span>
+          <strong className="calendar-summary-value positive">
+            {formatter.format(summary.gains)}円
+          </strong>
+        </article>
+        <article className="calendar-summary-card">
+          <span className="calendar-summary-label">損</span>
+          <strong className="calendar-summary-value negative">
+            {formatter.format(summary.losses)}円
+          </strong>
+        </article>
+        <article className="calendar-summary-card">
+          <span className="calendar-summary-label">損益</span>
+          <strong
+            className={`calendar-summary-value ${
+              toneOf(summary.net) || "neutral"
+            }`}>
+            {formatter.format(summary.net)}円
+          </strong>
+        </article>
+        <article className="calendar-summary-card">
+          <span className="calendar-summary-label">取引日数</span>
+          <strong className="calendar-summary-value neutral">
+            {summary.tradingDays}日
+          </strong>
+        </article>
+        <article className="calendar-summary-card">
+          <span className="calendar-summary-label">プラス日の割合</span>
+          <strong className="calendar-summary-value neutral">
+            {summary.tradingDays
+              ? percentFormatter.format(summary.greenDayRatio)
+              : "—"}
+          </strong>
+        </article>
+      </div>
+
+      <div
+        className="year-heatmap"
+        role="table"
+        aria-label="年間損益ヒートマップ">
+        <div className="year-heatmap-row year-heatmap-head" role="row">
+          <span role="columnheader" />
+          {DAY_COLUMNS.map((day) => (
+            <span
+              key={day}
+              role="columnheader"
+              className="year-heatmap-day-label">
+              {day % 5 === 0 || day === 1 ? day : ""}
+            </span>
+          ))}
+          <span role="columnheader" className="year-heatmap-total">
+            月計
+          </span>
+        </div>
+        {heatmap.months.map((month) => (
+          // The whole row is a mouse target; the month label is the keyboard one.
+          <div
+            key={month.month}
+            className="year-heatmap-row"
+            role="row"
+            onClick={() => onSelectMonth(month.month)}>
+            <button
+              type="button"
+              role="rowheader"
+              className="year-heatmap-month"
+              onClick={(event) => {
+                event.stopPropagation();
+                onSelectMonth(month.month);
+              }}>
+              {month.month}月
+            </button>
+            {DAY_COLUMNS.map((day) => {
+              const cell = month.days[day - 1];
+              if (!cell) {
+                return <span key={day} className="year-heatmap-cell empty" />;
+              }
+              const tone = toneOf(cell.profit);
+              return (
+                <span
+                  key={day}
+                  role="cell"
+                  className={`year-heatmap-cell ${tone} ${
+                    cell.profit !== null && tone !== "neutral"
+                      ? `level-${levelOf(cell.profit, heatmap.maxAbsProfit)}`
+                      : ""
+                  }`}
+                  title={`${cell.key}: ${
+                    cell.profit !== null
+                      ? `${formatter.format(cell.profit)}円`
+                      : "記録なし"
+                  }${cell.tradeCount ? ` (${cell.tradeCount}件)` : ""}`}
+                  aria-label={`${cell.key} ${
+                    cell.profit !== null
+                      ? `${formatter.format(cell.profit)}円`
+                      : "記録なし"
+                  }`}
+                />
+              );
+            })}
+            <span
+              role="cell"
+              className={`year-heatmap-total ${toneOf(month.total)}`}>
+              {month.total !== null
+                ? `${formatter.format(month.total)}円`
+                : "—"}
+            </span>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
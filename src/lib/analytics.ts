@@ -0,0 +1,353 @@
+import type { Tag, TradeEntry } from '../types'
+import {
+  HOLDING_TIME_BUCKETS,
+  OUTSIDE_SESSION_BUCKET,
+  TSE_SESSION_SLOTS,
+  holdingBucketOf,
+  holdingMinutes,
+  sessionSlotOf,
+  slotStartOf,
+} from './timing'
+import type { TimeBucket } from './timing'
+import type {
+  DailyTotal,
+  ProfitTotals,
+  TagTotal,
+  TickerTotal,
+  TimingTotal,
+  TradePerformance,
+} from './tradeRepository'
+
+export type ProfitSummary = {
+  totalTrades: number
+  totalProfit: number
+  winRate: number
+  /** Entries with a recorded P&L; win rate and averages are based on these. */
+  winSampleCount: number
+  averageProfit: number
+}
+
+export type TagPerformance = ProfitSummary & {
+  tag: Tag
+}
+
+const hasProfit = <T extends Pick<TradeEntry, 'realizedProfit'>>(entry: T): entry is T & { realizedProfit: number } =>
+  entry.realizedProfit !== null && Number.isFinite(entry.realizedProfit)
+
+/** Oldest first; same-day trades keep the order they were recorded in. */
+export const sortChronologically = <T extends Pick<TradeEntry, 'tradeDate' | 'createdAt'>>(entries: T[]) =>
+  [...entries].sort(
+    (a, b) => a.tradeDate.localeCompare(b.tradeDate) || a.createdAt.localeCompare(b.createdAt)
+  )
+
+// In-memory counterparts of the database aggregates, for the local store and
+// the offline cache.
+
+const totalsBy = <K>(entries: TradeEntry[], keysOf: (entry: TradeEntry) => K[]) => {
+  const byKey = new Map<K, ProfitTotals>()
+  entries.forEach((entry) => {
+    keysOf(entry).forEach((key) => {
+      const totals = byKey.get(key) ?? { tradeCount: 0, profitCount: 0, winCount: 0, netProfit: 0 }
+      totals.tradeCount += 1
+      if (hasProfit(entry)) {
+        totals.profitCount += 1
+        totals.winCount += entry.realizedProfit > 0 ? 1 : 0
+        totals.netProfit += entry.realizedProfit
+      }
+      byKey.set(key, totals)
+    })
+  })
+  return [...byKey]
+}
+
+export const totalsByDay = (entries: TradeEntry[]): DailyTotal[] =>
+  totalsBy(entries, (entry) => [entry.tradeDate])
+    .map(([tradeDate, totals]) => ({ tradeDate, ...totals }))
+    .sort((a, b) => a.tradeDate.localeCompare(b.tradeDate))
+
+export const totalsByTag = (entries: TradeEntry[]): TagTotal[] =>
+  totalsBy(entries, (entry) => entry.tagIds).map(([tagId, totals]) => ({ tagId, ...totals }))
+
+export const totalsByTicker = (entries: TradeEntry[]): TickerTotal[] => {
+  const latestFirst = sortChronologically(entries).reverse()
+  return totalsBy(latestFirst, (entry) => [entry.ticker]).map(([ticker, totals]) => ({
+    ticker,
+    tickerName: latestFirst.find((entry) => entry.ticker === ticker && entry.tickerName)?.tickerName ?? '',
+    lastTradeDate: latestFirst.find((entry) => entry.ticker === ticker)?.tradeDate ?? '',
+    ...totals,
+  }))
+}
+
+export const totalsByTiming = (entries: TradeEntry[]): TimingTotal[] => [
+  ...totalsBy(entries, (entry) => (entry.entryTime ? [slotStartOf(entry.entryTime)] : [])).map(
+    ([entrySlot, totals]) => ({ entrySlot, ...totals })
+  ),
+  ...totalsBy(entries, (entry) => {
+    const minutes = holdingMinutes(entry)
+    return minutes === null ? [] : [minutes]
+  }).map(([minutes, totals]) => ({ holdingMinutes: minutes, ...totals })),
+]
+
+export const measurePerformance = (entries: TradeEntry[]): TradePerformance => {
+  const profits = sortChronologically(entries)
+    .filter(hasProfit)
+    .map((entry) => entry.realizedProfit)
+  const wins = profits.filter((profit) => profit > 0)
+  const losses = profits.filter((profit) => profit < 0)
+
+  let winStreak = 0
+  let lossStreak = 0
+  let maxConsecutiveWins = 0
+  let maxConsecutiveLosses = 0
+  let equity = 0
+  let peak = 0
+  let maxDrawdown = 0
+  let maxDrawdownRate: number | null = null
+
+  profits.forEach((profit) => {
+    // A flat trade ends both streaks.
+    winStreak = profit > 0 ? winStreak + 1 : 0
+    lossStreak = profit < 0 ? lossStreak + 1 : 0
+    maxConsecutiveWins = Math.max(maxConsecutiveWins, winStreak)
+    maxConsecutiveLosses = Math.max(maxConsecutiveLosses, lossStreak)
+
+    equity += profit
+    peak = Math.max(peak, equity)
+    const drawdown = peak - equity
+    maxDrawdown = Math.max(maxDrawdown, drawdown)
+    if (peak > 0) {
+      maxDrawdownRate = Math.max(maxDrawdownRate ?? 0, drawdown / peak)
+    }
+  })
+
+  return {
+    grossProfit: wins.reduce((sum, profit) => sum + profit, 0),
+    grossLoss: losses.reduce((sum, profit) => sum + profit, 0),
+    winCount: wins.length,
+    lossCount: losses.length,
+    largestWin: wins.length ? Math.max(...wins) : null,
+    largestLoss: losses.length ? Math.min(...losses) : null,
+    maxConsecutiveWins,
+    maxConsecutiveLosses,
+    maxDrawdown,
+    maxDrawdownRate,
+  }
+}
+
+export const summarizeTotals = (totals: ProfitTotals[]): ProfitSummary => {
+  const totalTrades = totals.reduce((sum, total) => sum + total.tradeCount, 0)
+  const profitCount = totals.reduce((sum, total) => sum + total.profitCount, 0)
+  const winCount = totals.reduce((sum, total) => sum + total.winCount, 0)
+  const totalProfit = totals.reduce((sum, total) => sum + total.netProfit, 0)
+
+  return {
+    totalTrades,
+    totalProfit,
+    winRate: profitCount ? winCount / profitCount : 0,
+    winSampleCount: profitCount,
+    averageProfit: profitCount ? totalProfit / profitCount : 0,
+  }
+}
+
+export type PerformanceMetrics = ProfitSummary & {
+  grossProfit: number
+  grossLoss: number
+  /** Gross profit over gross loss; Infinity when there are wins but no losses. */
+  profitFactor: number | null
+  /** Average P&L per trade with a recorded result. */
+  expectancy: number
+  averageWin: number | null
+  averageLoss: number | null
+  /** Average win over the size of the average loss. */
+  payoffRatio: number | null
+  largestWin: number | null
+  largestLoss: number | null
+  maxConsecutiveWins: number
+  maxConsecutiveLosses: number
+  maxDrawdown: number
+  /** Drawdown relative to the peak cumulative P&L; null until the curve has been above zero. */
+  maxDrawdownRate: number | null
+}
+
+/** Combines the totals of a filter with the performance figures of the same filter. */
+export const summarizePerformance = (summary: ProfitSummary, performance: TradePerformance): PerformanceMetrics => {
+  const { grossProfit, grossLoss, winCount, lossCount } = performance
+  const averageWin = winCount ? grossProfit / winCount : null
+  const averageLoss = lossCount ? grossLoss / lossCount : null
+
+  return {
+    ...summary,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss < 0 ? grossProfit / -grossLoss : grossProfit > 0 ? Infinity : null,
+    expectancy: summary.averageProfit,
+    averageWin,
+    averageLoss,
+    payoffRatio: averageWin !== null && averageLoss !== null ? averageWin / -averageLoss : null,
+    largestWin: performance.largestWin,
+    largestLoss: performance.largestLoss,
+    maxConsecutiveWins: performance.maxConsecutiveWins,
+    maxConsecutiveLosses: performance.maxConsecutiveLosses,
+    maxDrawdown: performance.maxDrawdown,
+    maxDrawdownRate: performance.maxDrawdownRate,
+  }
+}
+
+export type EquityPoint = {
+  tradeDate: string
+  dayProfit: number
+  /** Cumulative P&L at the end of the day. */
+  equity: number
+  /** Distance below the running peak, zero or negative. */
+  drawdown: number
+  tradeCount: number
+}
+
+/** One point per trading day, cumulating P&L in date order. */
+export const buildEquityCurve = (days: DailyTotal[]): EquityPoint[] => {
+  let equity = 0
+  let peak = 0
+  return days.map((day) => {
+    equity += day.netProfit
+    peak = Math.max(peak, equity)
+    return {
+      tradeDate: day.tradeDate,
+      dayProfit: day.netProfit,
+      equity,
+      drawdown: equity - peak,
+      tradeCount: day.tradeCount,
+    }
+  })
+}
+
+export type TickerPerformance = ProfitSummary & {
+  ticker: string
+  /** Latest non-empty name recorded for the ticker. */
+  tickerName: string
+  lastTradeDate: string
+}
+
+export const summarizeByTicker = (totals: TickerTotal[]): TickerPerformance[] =>
+  totals.map(({ ticker, tickerName, lastTradeDate, ...rest }) => ({
+    ticker,
+    tickerName,
+    lastTradeDate,
+    ...summarizeTotals([rest]),
+  }))
+
+export type BucketPerformance = ProfitSummary & {
+  bucket: TimeBucket
+}
+
+const summarizeBuckets = (
+  buckets: TimeBucket[],
+  totals: TimingTotal[],
+  bucketOf: (total: TimingTotal) => TimeBucket | null
+): BucketPerformance[] => {
+  const grouped = new Map<string, TimingTotal[]>()
+  totals.forEach((total) => {
+    const bucket = bucketOf(total)
+    if (bucket) {
+      grouped.set(bucket.key, [...(grouped.get(bucket.key) ?? []), total])
+    }
+  })
+  return buckets
+    .filter((bucket) => grouped.has(bucket.key))
+    .map((bucket) => ({ bucket, ...summarizeTotals(grouped.get(bucket.key) ?? []) }))
+}
+
+/** Results by the 30-minute TSE slot the position was opened in. */
+export const summarizeBySessionSlot = (totals: TimingTotal[]) =>
+  summarizeBuckets([...TSE_SESSION_SLOTS, OUTSIDE_SESSION_BUCKET], totals, (total) =>
+    'entrySlot' in total ? sessionSlotOf(total.entrySlot) : null
+  )
+
+export const summarizeByHoldingTime = (totals: TimingTotal[]) =>
+  summarizeBuckets(HOLDING_TIME_BUCKETS, totals, (total) =>
+    'holdingMinutes' in total ? holdingBucketOf(total.holdingMinutes) : null
+  )
+
+export type HeatmapDay = {
+  key: string
+  day: number
+  profit: number | null
+  tradeCount: number
+}
+
+export type HeatmapMonth = {
+  month: number
+  days: HeatmapDay[]
+  total: number | null
+}
+
+export type YearSummary = {
+  gains: number
+  losses: number
+  net: number
+  tradingDays: number
+  greenDays: number
+  greenDayRatio: number
+}
+
+export type YearHeatmap = {
+  year: number
+  months: HeatmapMonth[]
+  summary: YearSummary
+  /** Largest absolute daily P&L, used to scale colour intensity. */
+  maxAbsProfit: number
+}
+
+/** Daily P&L for every day of the year; trading days are days with a recorded P&L. */
+export const buildYearHeatmap = (days: DailyTotal[], year: number): YearHeatmap => {
+  const prefix = `${year}-`
+  const byDate = new Map(days.filter((day) => day.tradeDate.startsWith(prefix)).map((day) => [day.tradeDate, day]))
+
+  const months = Array.from({ length: 12 }, (_, monthIndex): HeatmapMonth => {
+    const daysInMonth = new Date(year, monthIndex + 1, 0).getDate()
+    const days = Array.from({ length: daysInMonth }, (_, dayIndex): HeatmapDay => {
+      const key = `${prefix}${String(monthIndex + 1).padStart(2, '0')}-${String(dayIndex + 1).padStart(2, '0')}`
+      const total = byDate.get(key)
+      return {
+        key,
+        day: dayIndex + 1,
+        profit: total?.profitCount ? total.netProfit : null,
+        tradeCount: total?.tradeCount ?? 0,
+      }
+    })
+    const profits = days.flatMap((day) => (day.profit === null ? [] : [day.profit]))
+    return {
+      month: monthIndex + 1,
+      days,
+      total: profits.length ? profits.reduce((sum, profit) => sum + profit, 0) : null,
+    }
+  })
+
+  const dailyProfits = months.flatMap((month) => month.days.flatMap((day) => (day.profit === null ? [] : [day.profit])))
+  const gains = dailyProfits.filter((profit) => profit > 0).reduce((sum, profit) => sum + profit, 0)
+  const losses = dailyProfits.filter((profit) => profit < 0).reduce((sum, profit) => sum + profit, 0)
+  const greenDays = dailyProfits.filter((profit) => profit > 0).length
+
+  return {
+    year,
+    months,
+    summary: {
+      gains,
+      losses,
+      net: gains + losses,
+      tradingDays: dailyProfits.length,
+      greenDays,
+      greenDayRatio: dailyProfits.length ? greenDays / dailyProfits.length : 0,
+    },
+    maxAbsProfit: Math.max(0, ...dailyProfits.map(Math.abs)),
+  }
+}
+
+/** Per-tag results, best total first. Entries with several tags count toward each of them. */
+export const summarizeByTag = (totals: TagTotal[], tags: Tag[]): TagPerformance[] =>
+  tags
+    .map((tag) => ({
+      tag,
+      ...summarizeTotals(totals.filter((total) => total.tagId === tag.id)),
+    }))
+    .filter((performance) => performance.totalTrades > 0)
+    .sort((a, b) => b.totalProfit - a.totalProfit)
@@ -0,0 +1,34 @@
+import type { AnnotationShape, AnnotationTool } from '../types'
+
+export const ANNOTATION_TOOLS: Array<{ value: AnnotationTool; label: string }> = [
+  { value: 'arrow', label: '矢印' },
+  { value: 'hline', label: '水平線' },
+  { value: 'rect', label: '四角' },
+  { value: 'freehand', label: 'フリーハンド' },
+  { value: 'text', label: 'テキスト' },
+]
+
+export const ANNOTATION_COLORS = ['#d64545', '#1ca37b', '#f0b400', '#2f6fed', '#ffffff']
+
+/** Drags shorter than this (as a fraction of the image) are treated as clicks. */
+const MIN_DRAG = 0.01
+
+export const isMeaningfulShape = (shape: AnnotationShape) => {
+  switch (shape.kind) {
+    case 'arrow':
+    case 'rect':
+      return Math.hypot(shape.to.x - shape.from.x, shape.to.y - shape.from.y) >= MIN_DRAG
+    case 'freehand':
+      return shape.points.length > 1
+    case 'text':
+      return Boolean(shape.text.trim())
+    default:
+      return true
+  }
+}
+
+/** Drops markup for images that are no longer attached to the entry. */
+export const pruneAnnotations = (annotations: Record<string, AnnotationShape[]>, imagePaths: string[]) =>
+  Object.fromEntries(
+    Object.entries(annotations).filter(([path, shapes]) => imagePaths.includes(path) && shapes.length)
+  )
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react'
+
+export type AsyncQuery<T> = {
+  /** Last successful result; kept while a newer request is loading. */
+  data: T | null
+  error: string
+  isLoading: boolean
+}
+
+/**
+ * Runs `load` whenever it or `version` changes; callers memoise `load` over
+ * its inputs and bump the version after writes. Responses to superseded
+ * requests are dropped. Passing null skips the request and clears the result.
+ */
+export const useAsyncQuery = <T>(load: (() => Promise<T>) | null, version = 0): AsyncQuery<T> => {
+  const [state, setState] = useState<AsyncQuery<T>>({ data: null, error: '', isLoading: Boolean(load) })
+
+  useEffect(() => {
+    if (!load) {
+      setState({ data: null, error: '', isLoading: false })
+      return
+    }
+
+    let isCancelled = false
+    setState((prev) => ({ ...prev, isLoading: true }))
+    load()
+      .then((data) => {
+        if (!isCancelled) {
+          setState({ data, error: '', isLoading: false })
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setState((prev) => ({
+            ...prev,
+            error: error instanceof Error ? error.message : 'データの取得に失敗しました。',
+            isLoading: false,
+          }))
+        }
+      })
+    return () => {
+      isCancelled = true
+    }
+  }, [load, version])
+
+  return state
+}
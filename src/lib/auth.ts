@@ -0,0 +1,91 @@
+import type { AuthError } from '@supabase/supabase-js'
+import { routeHref } from './router'
+import type { AppRoute } from './router'
+import { supabase } from './supabaseClient'
+
+/** Supabase Auth rejects shorter passwords with its default settings. */
+export const MIN_PASSWORD_LENGTH = 6
+
+/** Absolute URL for links in auth emails; it must be listed under the project's redirect URLs. */
+const redirectUrl = (route: AppRoute) => `${window.location.origin}${routeHref(route)}`
+
+const failWith = (error: AuthError | null, fallback: string) => {
+  if (error) {
+    console.error(fallback, error)
+    throw new Error(error.message || fallback)
+  }
+}
+
+/** Message for an invalid new password, or an empty string when it can be saved. */
+export const validateNewPassword = (password: string, confirmation: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `パスワードは${MIN_PASSWORD_LENGTH}文字以上で入力してください。`
+  }
+  if (password !== confirmation) {
+    return '確認用のパスワードが一致しません。'
+  }
+  return ''
+}
+
+export const signInWithPassword = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password })
+  failWith(error, 'ログインに失敗しました。')
+}
+
+/**
+ * Creates an account. Returns true when the project requires email
+ * confirmation, in which case no session exists until the link is opened.
+ */
+export const signUp = async (email: string, password: string) => {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: redirectUrl({ view: 'dashboard' }) },
+  })
+  failWith(error, 'アカウントの作成に失敗しました。')
+  return !data.session
+}
+
+/** Magic link for an existing account; unknown addresses are not signed up. */
+export const sendMagicLink = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: redirectUrl({ view: 'dashboard' }), shouldCreateUser: false },
+  })
+  failWith(error, 'ログインリンクの送信に失敗しました。')
+}
+
+/** The link signs in with a recovery session, reported as PASSWORD_RECOVERY. */
+export const sendPasswordReset = async (email: string) => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: redirectUrl({ view: 'resetPassword' }),
+  })
+  failWith(error, '再設定メールの送信に失敗しました。')
+}
+
+export const updatePassword = async (password: string) => {
+  const { error } = await supabase.auth.updateUser({ password })
+  failWith(error, 'パスワードの変更に失敗しました。')
+}
+
+/** The address changes only after the confirmation link sent to it is opened. */
+export const updateEmail = async (email: string) => {
+  const { error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: redirectUrl({ view: 'profile' }) })
+  failWith(error, 'メールアドレスの変更に失敗しました。')
+}
+
+/**
+ * Error from an expired or already used email link. Supabase reports it in
+ * the URL fragment of the redirect instead of signing in; the fragment is
+ * dropped by the next navigation.
+ */
+export const readAuthRedirectError = () => {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''))
+  const description = params.get('error_description')
+  if (!description) {
+    return ''
+  }
+  return params.get('error_code') === 'otp_expired'
+    ? 'メールのリンクが無効か期限切れです。もう一度お試しください。'
+    : description
+}
@@ -0,0 +1,293 @@
+import type { TradeEntry } from '../types'
+import { toDateKey } from './summaryPeriod'
+import type { TradeInput } from './tradeRepository'
+
+export type BrokerId = 'sbi' | 'rakuten' | 'monex'
+
+type ImportField = 'tradeDate' | 'ticker' | 'tickerName' | 'realizedProfit'
+
+type BrokerProfile = {
+  id: BrokerId
+  label: string
+  /** Header names (after whitespace/unit stripping) accepted for each field, in priority order. */
+  columns: Record<ImportField, string[]>
+  /** Headers that only this broker's exports contain; used for auto-detection. */
+  signature: string[]
+}
+
+export const BROKER_PROFILES: BrokerProfile[] = [
+  {
+    id: 'sbi',
+    label: 'SBI証券',
+    columns: {
+      tradeDate: ['約定日'],
+      ticker: ['銘柄コード', 'コード'],
+      tickerName: ['銘柄', '銘柄名'],
+      realizedProfit: ['損益金額/徴収額', '損益金額', '実現損益'],
+    },
+    signature: ['損益金額/徴収額', '損益金額'],
+  },
+  {
+    id: 'rakuten',
+    label: '楽天証券',
+    columns: {
+      tradeDate: ['約定日'],
+      ticker: ['銘柄コード', 'ティッカー'],
+      tickerName: ['銘柄名', '銘柄'],
+      realizedProfit: ['実現損益', '損益'],
+    },
+    signature: ['信用区分', '口座'],
+  },
+  {
+    id: 'monex',
+    label: 'マネックス証券',
+    columns: {
+      tradeDate: ['約定日', '売却日'],
+      ticker: ['銘柄コード', 'コード'],
+      tickerName: ['銘柄名', '銘柄'],
+      realizedProfit: ['実現損益', '譲渡損益', '損益'],
+    },
+    signature: ['譲渡損益', '売却日'],
+  },
+]
+
+export type ImportRow = {
+  /** 1-based line number in the source file, for error messages. */
+  line: number
+  /** Cell values as they appear in the file, shown for rows that fail validation. */
+  raw: Record<ImportField, string>
+  input: TradeInput | null
+  errors: string[]
+  isDuplicate: boolean
+}
+
+export type ImportPreview = {
+  broker: BrokerProfile
+  rows: ImportRow[]
+}
+
+export const decodeBrokerCsv = async (file: File) => {
+  const buffer = await file.arrayBuffer()
+  const bytes = new Uint8Array(buffer)
+  // Some brokers now offer UTF-8 downloads; honour the BOM when present.
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3))
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes)
+  }
+}
+
+export const parseCsv = (text: string) => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .replace(/[\s\u3000]/g, '')
+    .replace(/[（(［[][^）)］\]]*[）)］\]]/g, '')
+    .trim()
+
+const toHalfWidth = (value: string) =>
+  value.replace(/[！-～]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+
+export const parseBrokerDate = (value: string) => {
+  const normalized = toHalfWidth(value).trim()
+  const match =
+    normalized.match(/^(\d{4})[/\-.年](\d{1,2})[/\-.月](\d{1,2})日?$/) ?? normalized.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (!match) {
+    return null
+  }
+  const [, year, month, day] = match
+  const date = new Date(Number(year), Number(month) - 1, Number(day))
+  if (date.getMonth() !== Number(month) - 1) {
+    return null
+  }
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+export const parseBrokerNumber = (value: string) => {
+  const normalized = toHalfWidth(value).replace(/[,円\s]/g, '')
+  if (!normalized || normalized === '-' || normalized === '--') {
+    return null
+  }
+  // ▲ and △ are the usual Japanese minus signs in broker statements.
+  const signed = normalized.replace(/^[▲△]/, '-').replace(/^\+/, '')
+  const parsed = Number(signed)
+  return Number.isFinite(parsed) ? parsed : Number.NaN
+}
+
+const findColumn = (headers: string[], candidates: string[]) => {
+  for (const candidate of candidates) {
+    const index = headers.indexOf(candidate)
+    if (index >= 0) {
+      return index
+    }
+  }
+  return -1
+}
+
+const findHeaderRow = (rows: string[][]) =>
+  rows.findIndex((row) => {
+    const headers = row.map(normalizeHeader)
+    return headers.includes('約定日') || headers.includes('売却日')
+  })
+
+export const detectBroker = (rows: string[][]) => {
+  const headerIndex = findHeaderRow(rows)
+  if (headerIndex < 0) {
+    return null
+  }
+  const headers = rows[headerIndex].map(normalizeHeader)
+  return BROKER_PROFILES.find((profile) => profile.signature.some((name) => headers.includes(name))) ?? null
+}
+
+export const duplicateKey = (tradeDate: string, ticker: string, realizedProfit: number | null) =>
+  `${tradeDate}|${ticker.toUpperCase()}|${realizedProfit ?? ''}`
+
+/**
+ * Maps a broker export to TradeInputs. Rows that fail validation keep their
+ * errors so the preview can show them; rows matching an existing journal
+ * entry (same date, ticker and P&L) are flagged as duplicates.
+ */
+export const buildImportPreview = (
+  text: string,
+  existingEntries: TradeEntry[],
+  brokerId?: BrokerId
+): ImportPreview => {
+  const rows = parseCsv(text)
+  const headerIndex = findHeaderRow(rows)
+  if (headerIndex < 0) {
+    throw new Error('約定日の列が見つかりません。証券会社からダウンロードしたCSVを選択してください。')
+  }
+
+  const broker = BROKER_PROFILES.find((profile) => profile.id === brokerId) ?? detectBroker(rows)
+  if (!broker) {
+    throw new Error('証券会社を判別できませんでした。証券会社を選択してから再度読み込んでください。')
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader)
+  const columnIndex = {
+    tradeDate: findColumn(headers, broker.columns.tradeDate),
+    ticker: findColumn(headers, broker.columns.ticker),
+    tickerName: findColumn(headers, broker.columns.tickerName),
+    realizedProfit: findColumn(headers, broker.columns.realizedProfit),
+  }
+  if (columnIndex.ticker < 0 && columnIndex.tickerName < 0) {
+    throw new Error('銘柄コードまたは銘柄名の列が見つかりません。')
+  }
+
+  const existingKeys = new Set(
+    existingEntries.map((entry) => duplicateKey(entry.tradeDate, entry.ticker, entry.realizedProfit))
+  )
+  const today = toDateKey(new Date())
+
+  return {
+    broker,
+    rows: rows
+      .slice(headerIndex + 1)
+      .map((cells, offset) => ({ cells, line: headerIndex + offset + 2 }))
+      .filter(({ cells }) => cells.some((cell) => cell.trim()))
+      .map(({ cells, line }) => {
+        const cell = (index: number) => (index >= 0 ? (cells[index] ?? '').trim() : '')
+        const errors: string[] = []
+        const raw = {
+          tradeDate: cell(columnIndex.tradeDate),
+          ticker: cell(columnIndex.ticker),
+          tickerName: cell(columnIndex.tickerName),
+          realizedProfit: cell(columnIndex.realizedProfit),
+        }
+
+        const tradeDate = parseBrokerDate(cell(columnIndex.tradeDate))
+        if (!tradeDate) {
+          errors.push('約定日を読み取れません。')
+        } else if (tradeDate > today) {
+          errors.push('約定日が未来の日付です。')
+        }
+
+        const ticker = toHalfWidth(cell(columnIndex.ticker)).toUpperCase()
+        const tickerName = cell(columnIndex.tickerName)
+        if (!ticker && !tickerName) {
+          errors.push('銘柄コード・銘柄名が空です。')
+        }
+
+        const realizedProfit =
+          columnIndex.realizedProfit >= 0 ? parseBrokerNumber(cell(columnIndex.realizedProfit)) : null
+        if (realizedProfit !== null && Number.isNaN(realizedProfit)) {
+          errors.push('損益が数値ではありません。')
+        }
+
+        if (errors.length || !tradeDate) {
+          return { line, raw, input: null, errors, isDuplicate: false }
+        }
+
+        const input: TradeInput = {
+          tradeDate,
+          ticker: ticker || tickerName,
+          tickerName: tickerName || null,
+          realizedProfit,
+          side: null,
+          entryPrice: null,
+          exitPrice: null,
+          quantity: null,
+          commission: null,
+          entryTime: null,
+          exitTime: null,
+          fills: [],
+          tagIds: [],
+          reason: null,
+          reflection: null,
+          imagePaths: [],
+          imageAnnotations: {},
+        }
+        return {
+          line,
+          raw,
+          input,
+          errors,
+          isDuplicate: existingKeys.has(duplicateKey(input.tradeDate, input.ticker, input.realizedProfit)),
+        }
+      }),
+  }
+}
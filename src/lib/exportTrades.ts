@@ -0,0 +1,113 @@
+import type { Tag, TradeEntry } from '../types'
+import { formatFill } from './fills'
+import { SIDE_LABELS } from './position'
+
+export type ExportFormat = 'csv' | 'json'
+
+export type ExportOptions = {
+  format: ExportFormat
+  includeImageLinks: boolean
+  /** Used to write tag names instead of ids. */
+  tags: Tag[]
+  /** Signed URLs keyed by storage path; needed when includeImageLinks is set. */
+  imageUrls?: Record<string, string>
+}
+
+type ExportContext = {
+  tagNames: Map<string, string>
+  imageUrls: Record<string, string>
+}
+
+type ExportColumn = {
+  key: string
+  label: string
+  value: (entry: TradeEntry, context: ExportContext) => string | number | null
+  isImageLink?: boolean
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'ID', value: (entry) => entry.id },
+  { key: 'userId', label: 'ユーザーID', value: (entry) => entry.userId },
+  { key: 'tradeDate', label: '売買日', value: (entry) => entry.tradeDate },
+  { key: 'ticker', label: '銘柄コード', value: (entry) => entry.ticker },
+  { key: 'tickerName', label: '銘柄名', value: (entry) => entry.tickerName },
+  { key: 'realizedProfit', label: '損益', value: (entry) => entry.realizedProfit },
+  { key: 'side', label: '売買区分', value: (entry) => (entry.side ? SIDE_LABELS[entry.side] : null) },
+  { key: 'entryPrice', label: '建値', value: (entry) => entry.entryPrice },
+  { key: 'exitPrice', label: '決済価格', value: (entry) => entry.exitPrice },
+  { key: 'quantity', label: '数量', value: (entry) => entry.quantity },
+  { key: 'commission', label: '手数料', value: (entry) => entry.commission },
+  { key: 'entryTime', label: 'エントリー時刻', value: (entry) => entry.entryTime },
+  { key: 'exitTime', label: '決済時刻', value: (entry) => entry.exitTime },
+  { key: 'fills', label: '約定', value: (entry) => entry.fills.map(formatFill).join('; ') || null },
+  {
+    key: 'tags',
+    label: 'タグ',
+    value: (entry, { tagNames }) => entry.tagIds.flatMap((id) => tagNames.get(id) ?? []).join('; ') || null,
+  },
+  { key: 'reason', label: '売買理由', value: (entry) => entry.reason },
+  { key: 'reflection', label: '振り返り', value: (entry) => entry.reflection },
+  { key: 'imagePaths', label: '画像パス', value: (entry) => entry.imagePaths.join('; ') || null, isImageLink: true },
+  {
+    key: 'imageUrls',
+    label: '画像URL',
+    value: (entry, { imageUrls }) => entry.imagePaths.flatMap((path) => imageUrls[path] ?? []).join('; ') || null,
+    isImageLink: true,
+  },
+  { key: 'createdAt', label: '作成日時', value: (entry) => entry.createdAt },
+  { key: 'updatedAt', label: '更新日時', value: (entry) => entry.updatedAt },
+]
+
+const columnsFor = (options: ExportOptions) =>
+  EXPORT_COLUMNS.filter((column) => options.includeImageLinks || !column.isImageLink)
+
+const contextFor = (options: ExportOptions): ExportContext => ({
+  tagNames: new Map(options.tags.map((tag) => [tag.id, tag.name])),
+  imageUrls: options.imageUrls ?? {},
+})
+
+const escapeCsvCell = (value: string | number | null) => {
+  if (value === null) {
+    return ''
+  }
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const buildTradesCsv = (entries: TradeEntry[], options: ExportOptions) => {
+  const columns = columnsFor(options)
+  const context = contextFor(options)
+  const lines = [
+    columns.map((column) => escapeCsvCell(column.label)).join(','),
+    ...entries.map((entry) =>
+      columns.map((column) => escapeCsvCell(column.value(entry, context))).join(',')
+    ),
+  ]
+  // Excel only detects UTF-8 (and thus Japanese text) when the file starts with a BOM.
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+export const buildTradesJson = (entries: TradeEntry[], options: ExportOptions) => {
+  const columns = columnsFor(options)
+  const context = contextFor(options)
+  const rows = entries.map((entry) =>
+    Object.fromEntries(columns.map((column) => [column.key, column.value(entry, context)]))
+  )
+  return `${JSON.stringify(rows, null, 2)}\n`
+}
+
+export const downloadTrades = (entries: TradeEntry[], options: ExportOptions) => {
+  const isCsv = options.format === 'csv'
+  const content = isCsv ? buildTradesCsv(entries, options) : buildTradesJson(entries, options)
+  const blob = new Blob([content], {
+    type: isCsv ? 'text/csv;charset=utf-8' : 'application/json;charset=utf-8',
+  })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `trades-${new Date().toISOString().slice(0, 10)}.${options.format}`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,100 @@
+import type { FillDraft, TradeFill, TradeSide } from '../types'
+import { createId } from './tradeRepository'
+
+export const FILL_SIDE_LABELS = {
+  buy: '買',
+  sell: '売',
+} as const
+
+export type FillSummary = {
+  side: TradeSide
+  averageEntryPrice: number | null
+  averageExitPrice: number | null
+  /** Shares opened over the life of the trade. */
+  positionSize: number
+  closedQuantity: number
+  /** Gross P&L on the closed quantity, before commission. */
+  grossProfit: number | null
+}
+
+export const createFillDraft = (previous?: FillDraft): FillDraft => ({
+  id: createId(),
+  time: previous?.time ?? '',
+  side: previous?.side ?? 'buy',
+  price: '',
+  quantity: previous?.quantity ?? '',
+})
+
+export const toFillDraft = (fill: TradeFill): FillDraft => ({
+  id: fill.id,
+  time: fill.time,
+  side: fill.side,
+  price: String(fill.price),
+  quantity: String(fill.quantity),
+})
+
+export const parseFillDrafts = (
+  drafts: FillDraft[]
+): { fills: TradeFill[]; error: null } | { fills: null; error: string } => {
+  const fills: TradeFill[] = []
+  for (const [index, draft] of drafts.entries()) {
+    const price = Number(draft.price)
+    const quantity = Number(draft.quantity)
+    if (!draft.price.trim() || !Number.isFinite(price) || price <= 0) {
+      return { fills: null, error: `${index + 1}件目の約定価格を正しく入力してください。` }
+    }
+    if (!draft.quantity.trim() || !Number.isInteger(quantity) || quantity <= 0) {
+      return { fills: null, error: `${index + 1}件目の数量は1以上の整数で入力してください。` }
+    }
+    if (draft.time && !/^\d{2}:\d{2}$/.test(draft.time)) {
+      return { fills: null, error: `${index + 1}件目の時刻はHH:MM形式で入力してください。` }
+    }
+    fills.push({ id: draft.id, time: draft.time, side: draft.side, price, quantity })
+  }
+  return { fills: sortFills(fills), error: null }
+}
+
+export const sortFills = (fills: TradeFill[]) =>
+  [...fills].sort((a, b) => (a.time || '99:99').localeCompare(b.time || '99:99'))
+
+const weightedAverage = (fills: TradeFill[]) => {
+  const quantity = fills.reduce((sum, fill) => sum + fill.quantity, 0)
+  if (!quantity) {
+    return { price: null, quantity: 0 }
+  }
+  const notional = fills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0)
+  return { price: notional / quantity, quantity }
+}
+
+/**
+ * Derives the trade's averages from its legs. The first fill decides the
+ * direction unless `side` is given: a buy opens a long, a sell opens a short.
+ */
+export const summarizeFills = (fills: TradeFill[], side?: TradeSide | null): FillSummary | null => {
+  if (!fills.length) {
+    return null
+  }
+  const ordered = sortFills(fills)
+  const direction: TradeSide = side ?? (ordered[0].side === 'sell' ? 'short' : 'long')
+  const openingSide = direction === 'long' ? 'buy' : 'sell'
+
+  const entry = weightedAverage(ordered.filter((fill) => fill.side === openingSide))
+  const exit = weightedAverage(ordered.filter((fill) => fill.side !== openingSide))
+  const closedQuantity = Math.min(entry.quantity, exit.quantity)
+  const grossProfit =
+    entry.price !== null && exit.price !== null
+      ? (exit.price - entry.price) * closedQuantity * (direction === 'short' ? -1 : 1)
+      : null
+
+  return {
+    side: direction,
+    averageEntryPrice: entry.price,
+    averageExitPrice: exit.price,
+    positionSize: entry.quantity,
+    closedQuantity,
+    grossProfit,
+  }
+}
+
+export const formatFill = (fill: TradeFill) =>
+  `${fill.time || '--:--'} ${FILL_SIDE_LABELS[fill.side]} ${fill.quantity}@${fill.price}`
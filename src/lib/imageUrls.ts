@@ -0,0 +1,167 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { tradeRepository } from './repository'
+import type { SignedImageUrl } from './tradeRepository'
+
+/** Requests arriving within this window are signed in one call. */
+const BATCH_DELAY_MS = 30
+const BATCH_SIZE = 100
+/** URLs are re-signed this long before they expire. */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+export type ImageUrlCache = {
+  /** Current URL for a path, or null until it has been signed. */
+  peek: (path: string) => string | null
+  /**
+   * Marks a path as on screen: it is signed (batched with other requests)
+   * and kept fresh until the returned release function is called.
+   */
+  retain: (path: string) => () => void
+  /** Signs every path that is not cached yet, e.g. for an export. */
+  resolve: (paths: string[]) => Promise<Record<string, string>>
+  clear: () => void
+  subscribe: (listener: () => void) => () => void
+}
+
+/**
+ * Caches signed image URLs with their expiry. Only retained paths are
+ * signed and refreshed, so a long journal costs one batched call for the
+ * screenshots in view instead of one call per image at startup.
+ */
+export function createImageUrlCache(
+  sign: (paths: string[]) => Promise<Record<string, SignedImageUrl>>
+): ImageUrlCache {
+  const urls = new Map<string, SignedImageUrl>()
+  const retained = new Map<string, number>()
+  const queued = new Set<string>()
+  const inFlight = new Map<string, Promise<void>>()
+  const listeners = new Set<() => void>()
+  let flushTimer: ReturnType<typeof setTimeout> | null = null
+  let refreshTimer: ReturnType<typeof setInterval> | null = null
+
+  const notify = () => {
+    listeners.forEach((listener) => listener())
+  }
+
+  const isFresh = (path: string, now = Date.now()) => {
+    const cached = urls.get(path)
+    return Boolean(cached) && (cached!.expiresAt === null || cached!.expiresAt - REFRESH_MARGIN_MS > now)
+  }
+
+  const signBatch = async (paths: string[]) => {
+    try {
+      const signed = await sign(paths)
+      Object.entries(signed).forEach(([path, url]) => urls.set(path, url))
+      notify()
+    } catch (error) {
+      // Retained paths are retried on the next refresh tick.
+      console.warn('Failed to sign image URLs:', error)
+    }
+  }
+
+  const flush = () => {
+    flushTimer = null
+    const paths = [...queued].filter((path) => !inFlight.has(path))
+    queued.clear()
+    for (let start = 0; start < paths.length; start += BATCH_SIZE) {
+      const batch = paths.slice(start, start + BATCH_SIZE)
+      const request = signBatch(batch).finally(() => {
+        batch.forEach((path) => inFlight.delete(path))
+      })
+      batch.forEach((path) => inFlight.set(path, request))
+    }
+  }
+
+  const enqueue = (path: string) => {
+    queued.add(path)
+    if (flushTimer === null) {
+      flushTimer = setTimeout(flush, BATCH_DELAY_MS)
+    }
+  }
+
+  const refresh = () => {
+    const now = Date.now()
+    retained.forEach((_, path) => {
+      if (!isFresh(path, now)) {
+        enqueue(path)
+      }
+    })
+  }
+
+  const updateRefreshTimer = () => {
+    if (retained.size && refreshTimer === null) {
+      refreshTimer = setInterval(refresh, REFRESH_INTERVAL_MS)
+    } else if (!retained.size && refreshTimer !== null) {
+      clearInterval(refreshTimer)
+      refreshTimer = null
+    }
+  }
+
+  // Timers are throttled in background tabs; catch up as soon as it is shown.
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        refresh()
+      }
+    })
+  }
+
+  return {
+    peek: (path) => urls.get(path)?.url ?? null,
+
+    retain(path) {
+      retained.set(path, (retained.get(path) ?? 0) + 1)
+      if (!isFresh(path)) {
+        enqueue(path)
+      }
+      updateRefreshTimer()
+      return () => {
+        const count = (retained.get(path) ?? 1) - 1
+        if (count > 0) {
+          retained.set(path, count)
+        } else {
+          retained.delete(path)
+        }
+        updateRefreshTimer()
+      }
+    },
+
+    async resolve(paths) {
+      const missing = [...new Set(paths)].filter((path) => !isFresh(path) && !inFlight.has(path))
+      for (let start = 0; start < missing.length; start += BATCH_SIZE) {
+        await signBatch(missing.slice(start, start + BATCH_SIZE))
+      }
+      await Promise.all(paths.flatMap((path) => inFlight.get(path) ?? []))
+      return Object.fromEntries(paths.flatMap((path) => (urls.has(path) ? [[path, urls.get(path)!.url]] : [])))
+    },
+
+    clear() {
+      urls.clear()
+      queued.clear()
+      notify()
+    },
+
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+export const imageUrlCache = createImageUrlCache((paths) => tradeRepository.getImageUrls(paths))
+
+/**
+ * Signed URL for a stored image. Pass `enabled: false` until the image is
+ * near the viewport so off-screen screenshots are not signed.
+ */
+export const useImageUrl = (path: string | null, enabled = true) => {
+  useEffect(() => {
+    if (path && enabled) {
+      return imageUrlCache.retain(path)
+    }
+  }, [enabled, path])
+
+  return useSyncExternalStore(imageUrlCache.subscribe, () => (path ? imageUrlCache.peek(path) : null))
+}
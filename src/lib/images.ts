@@ -0,0 +1,85 @@
+import type { ImageDraft, TradeEntry, ViewerImage } from '../types'
+import { createId } from './tradeRepository'
+
+const MAX_DIMENSION = 1920
+const WEBP_QUALITY = 0.85
+
+/** Formats canvas cannot re-encode without losing something (animation, vectors). */
+const PASSTHROUGH_TYPES = new Set(['image/gif', 'image/svg+xml'])
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality))
+
+/**
+ * Downscales a screenshot to fit MAX_DIMENSION and re-encodes it as WebP.
+ * Returns the original file when the browser cannot decode it, has no WebP
+ * encoder, or the result would not be smaller.
+ */
+export const compressImage = async (file: File): Promise<File> => {
+  if (!file.type.startsWith('image/') || PASSTHROUGH_TYPES.has(file.type)) {
+    return file
+  }
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    return file
+  }
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+  const context = canvas.getContext('2d')
+  if (!context) {
+    bitmap.close()
+    return file
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  const blob = await canvasToBlob(canvas, 'image/webp', WEBP_QUALITY)
+  // Browsers without a WebP encoder silently fall back to PNG.
+  if (!blob || blob.type !== 'image/webp' || (scale === 1 && blob.size >= file.size)) {
+    return file
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'image'
+  return new File([blob], `${baseName}.webp`, { type: 'image/webp', lastModified: Date.now() })
+}
+
+/** Image files from a paste or drop; other items (text, links) are ignored. */
+export const imageFilesFrom = (data: DataTransfer | null) =>
+  Array.from(data?.files ?? []).filter((file) => file.type.startsWith('image/'))
+
+export const createImageDraft = (file: File): ImageDraft => ({
+  key: createId(),
+  path: null,
+  file,
+  previewUrl: URL.createObjectURL(file),
+})
+
+export const toImageDrafts = (entry: TradeEntry): ImageDraft[] =>
+  entry.imagePaths.map((path) => ({
+    key: path,
+    path,
+    file: null,
+    previewUrl: null,
+  }))
+
+/** Revokes preview URLs created for new files. */
+export const releaseImageDrafts = (drafts: ImageDraft[]) => {
+  drafts.forEach((draft) => {
+    if (draft.previewUrl) {
+      URL.revokeObjectURL(draft.previewUrl)
+    }
+  })
+}
+
+export const viewerImagesOf = (entry: TradeEntry): ViewerImage[] =>
+  entry.imagePaths.map((path, index) => ({
+    path,
+    alt: `${entry.ticker} の取引メモ${entry.imagePaths.length > 1 ? ` (${index + 1})` : ''}`,
+    annotations: entry.imageAnnotations[path] ?? [],
+  }))
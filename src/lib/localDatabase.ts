@@ -0,0 +1,114 @@
+const DATABASE_NAME = 'day-trader-diary'
+const DATABASE_VERSION = 4
+
+export const LOCAL_STORES = [
+  'trades',
+  'images',
+  'tags',
+  'revisions',
+  'cachedTrades',
+  'cachedTags',
+  'cachedRevisions',
+  'outbox',
+  'pendingImages',
+] as const
+
+export type LocalStoreName = (typeof LOCAL_STORES)[number]
+
+/**
+ * Minimal key/value view over IndexedDB. Falls back to in-memory maps when
+ * IndexedDB is unavailable (private browsing, tests, SSR).
+ */
+export type LocalDatabase = {
+  getAll: <T>(store: LocalStoreName) => Promise<T[]>
+  get: <T>(store: LocalStoreName, key: string) => Promise<T | undefined>
+  put: <T>(store: LocalStoreName, key: string, value: T) => Promise<void>
+  delete: (store: LocalStoreName, key: string) => Promise<void>
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const openIndexedDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      LOCAL_STORES.forEach((store) => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store)
+        }
+      })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const createIndexedDbDatabase = (dbPromise: Promise<IDBDatabase>): LocalDatabase => {
+  const withStore = async <T>(
+    store: LocalStoreName,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T>
+  ) => {
+    const db = await dbPromise
+    return requestToPromise(run(db.transaction(store, mode).objectStore(store)))
+  }
+
+  return {
+    getAll: <T>(store: LocalStoreName) =>
+      withStore(store, 'readonly', (objectStore) => objectStore.getAll() as IDBRequest<T[]>),
+    get: <T>(store: LocalStoreName, key: string) =>
+      withStore(store, 'readonly', (objectStore) => objectStore.get(key) as IDBRequest<T | undefined>),
+    put: async (store, key, value) => {
+      await withStore(store, 'readwrite', (objectStore) => objectStore.put(value, key))
+    },
+    delete: async (store, key) => {
+      await withStore(store, 'readwrite', (objectStore) => objectStore.delete(key))
+    },
+  }
+}
+
+const createMemoryDatabase = (): LocalDatabase => {
+  const stores = new Map<LocalStoreName, Map<string, unknown>>(
+    LOCAL_STORES.map((store) => [store, new Map<string, unknown>()])
+  )
+  const storeFor = (store: LocalStoreName) => stores.get(store)!
+
+  return {
+    getAll: async <T>(store: LocalStoreName) => [...storeFor(store).values()] as T[],
+    get: async <T>(store: LocalStoreName, key: string) => storeFor(store).get(key) as T | undefined,
+    put: async (store, key, value) => {
+      storeFor(store).set(key, value)
+    },
+    delete: async (store, key) => {
+      storeFor(store).delete(key)
+    },
+  }
+}
+
+export function openLocalDatabase(): LocalDatabase {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryDatabase()
+  }
+
+  const memory = createMemoryDatabase()
+  const dbPromise = openIndexedDb()
+  const indexed = createIndexedDbDatabase(dbPromise)
+  const ready = dbPromise.then(
+    () => indexed,
+    (error) => {
+      console.warn('IndexedDB is unavailable, falling back to memory storage:', error)
+      return memory
+    }
+  )
+
+  return {
+    getAll: async <T>(store: LocalStoreName) => (await ready).getAll<T>(store),
+    get: async <T>(store: LocalStoreName, key: string) => (await ready).get<T>(store, key),
+    put: async (store, key, value) => (await ready).put(store, key, value),
+    delete: async (store, key) => (await ready).delete(store, key),
+  }
+}
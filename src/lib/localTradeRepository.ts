@@ -0,0 +1,189 @@
+import type { Tag, TradeEntry } from '../types'
+import { measurePerformance, totalsByDay, totalsByTag, totalsByTicker, totalsByTiming } from './analytics'
+import { openLocalDatabase } from './localDatabase'
+import type { LocalDatabase } from './localDatabase'
+import { matchesTradeFilter, pageTrades } from './tradeFilter'
+import { buildImagePath, createId, withEntryDefaults } from './tradeRepository'
+import type { SignedImageUrl, TradeFilter, TradeRepository, TradeRevision } from './tradeRepository'
+
+const assertUniqueTagName = async (db: LocalDatabase, userId: string, name: string, exceptId?: string) => {
+  const tags = await db.getAll<Tag>('tags')
+  if (tags.some((tag) => tag.userId === userId && tag.name === name && tag.id !== exceptId)) {
+    throw new Error('同じ名前のタグがあります。')
+  }
+}
+
+/**
+ * Browser-only backend. Entries and images live in IndexedDB (or memory), so
+ * the journal works for demos and tests without a Supabase project.
+ */
+export function createLocalTradeRepository(db: LocalDatabase = openLocalDatabase()): TradeRepository {
+  const objectUrls = new Map<string, string>()
+
+  const requireTrade = async (id: string) => {
+    const entry = await db.get<TradeEntry>('trades', id)
+    if (!entry) {
+      throw new Error('取引が見つかりませんでした。')
+    }
+    return withEntryDefaults(entry)
+  }
+
+  const listEntries = async (userId: string) => {
+    const entries = await db.getAll<TradeEntry>('trades')
+    return entries.filter((entry) => entry.userId === userId).map(withEntryDefaults)
+  }
+
+  const listMatching = async (userId: string, filter: TradeFilter) =>
+    (await listEntries(userId)).filter((entry) => matchesTradeFilter(entry, filter))
+
+  return {
+    async queryTrades(userId, filter, range) {
+      return pageTrades(await listEntries(userId), filter, range)
+    },
+
+    async listDailyTotals(userId, filter) {
+      return totalsByDay(await listMatching(userId, filter))
+    },
+
+    async getPerformance(userId, filter) {
+      return measurePerformance(await listMatching(userId, filter))
+    },
+
+    async listTagTotals(userId, filter) {
+      return totalsByTag(await listMatching(userId, filter))
+    },
+
+    async listTimingTotals(userId, filter) {
+      return totalsByTiming(await listMatching(userId, filter))
+    },
+
+    async listTickerTotals(userId, filter) {
+      return totalsByTicker(await listMatching(userId, filter))
+    },
+
+    async getTrade(id) {
+      const entry = await db.get<TradeEntry>('trades', id)
+      return entry ? withEntryDefaults(entry) : null
+    },
+
+    async createTrade(userId, input, id = createId()) {
+      const now = new Date().toISOString()
+      const entry: TradeEntry = {
+        id,
+        userId,
+        ...input,
+        tickerName: input.tickerName ?? '',
+        deletedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      }
+      await db.put('trades', entry.id, entry)
+      return entry
+    },
+
+    async createTrades(userId, inputs) {
+      const created: TradeEntry[] = []
+      for (const input of inputs) {
+        created.push(await this.createTrade(userId, input))
+      }
+      return created
+    },
+
+    async updateTrade(id, update) {
+      const current = await requireTrade(id)
+      const next: TradeEntry = {
+        ...current,
+        ...update,
+        tickerName: update.tickerName === undefined ? current.tickerName : update.tickerName ?? '',
+        updatedAt: new Date().toISOString(),
+      }
+      await db.put('trades', id, next)
+      return next
+    },
+
+    async deleteTrade(id) {
+      await db.delete('trades', id)
+      const revisions = await db.getAll<TradeRevision>('revisions')
+      await Promise.all(
+        revisions.filter((revision) => revision.tradeId === id).map((revision) => db.delete('revisions', revision.id))
+      )
+    },
+
+    async listRevisions(tradeId) {
+      const revisions = await db.getAll<TradeRevision>('revisions')
+      return revisions
+        .filter((revision) => revision.tradeId === tradeId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+
+    async createRevision(userId, tradeId, snapshot, id = createId()) {
+      const revision: TradeRevision = { id, tradeId, userId, snapshot, createdAt: new Date().toISOString() }
+      await db.put('revisions', id, revision)
+      return revision
+    },
+
+    async uploadImage(userId, file, path = buildImagePath(userId, file)) {
+      await db.put<Blob>('images', path, file)
+      return path
+    },
+
+    async removeImage(path) {
+      await db.delete('images', path)
+      const url = objectUrls.get(path)
+      if (url) {
+        URL.revokeObjectURL(url)
+        objectUrls.delete(path)
+      }
+    },
+
+    async listTags(userId) {
+      const tags = await db.getAll<Tag>('tags')
+      return tags
+        .filter((tag) => tag.userId === userId)
+        .sort((a, b) => a.name.localeCompare(b.name, 'ja'))
+    },
+
+    async createTag(userId, name) {
+      await assertUniqueTagName(db, userId, name)
+      const tag: Tag = { id: createId(), userId, name, createdAt: new Date().toISOString() }
+      await db.put('tags', tag.id, tag)
+      return tag
+    },
+
+    async renameTag(id, name) {
+      const tag = await db.get<Tag>('tags', id)
+      if (!tag) {
+        throw new Error('タグが見つかりませんでした。')
+      }
+      await assertUniqueTagName(db, tag.userId, name, id)
+      const renamed = { ...tag, name }
+      await db.put('tags', id, renamed)
+      return renamed
+    },
+
+    async deleteTag(id) {
+      await db.delete('tags', id)
+    },
+
+    // Nothing else writes to this browser's database except other tabs,
+    // which withTabBroadcast covers.
+    subscribeToChanges: () => () => {},
+
+    async getImageUrls(paths) {
+      const urls: Record<string, SignedImageUrl> = {}
+      for (const path of paths) {
+        let url = objectUrls.get(path)
+        if (!url) {
+          const blob = await db.get<Blob>('images', path)
+          if (!blob) {
+            continue
+          }
+          url = URL.createObjectURL(blob)
+          objectUrls.set(path, url)
+        }
+        urls[path] = { url, expiresAt: null }
+      }
+      return urls
+    },
+  }
+}
@@ -0,0 +1,763 @@
+import type { Tag, TradeEntry } from '../types'
+import { measurePerformance, totalsByDay, totalsByTag, totalsByTicker, totalsByTiming } from './analytics'
+import { openLocalDatabase } from './localDatabase'
+import type { LocalDatabase } from './localDatabase'
+import { matchesTradeFilter, pageTrades } from './tradeFilter'
+import { TRADE_FIELDS, buildImagePath, changedFields, createId, normalizeField, withEntryDefaults } from './tradeRepository'
+import type {
+  SignedImageUrl,
+  TradeChange,
+  TradeFilter,
+  TradeInput,
+  TradeRepository,
+  TradeRevision,
+  TradeUpdate,
+} from './tradeRepository'
+
+type Conflict = {
+  /** Server copy at the time the conflict was detected; null when it was deleted remotely. */
+  server: TradeEntry | null
+  fields: Array<keyof TradeUpdate>
+}
+
+type OutboxMutation = { key: string; conflict?: Conflict } & (
+  | { kind: 'create'; tradeId: string; userId: string; input: TradeInput }
+  | { kind: 'update'; tradeId: string; update: TradeUpdate; base: TradeEntry }
+  | { kind: 'delete'; tradeId: string; base: TradeEntry }
+  | { kind: 'createRevision'; tradeId: string; revision: TradeRevision }
+  | { kind: 'uploadImage'; userId: string; path: string }
+  | { kind: 'removeImage'; path: string }
+)
+
+type PendingImage = { userId: string; file: File }
+
+export type ConflictResolution = 'local' | 'server'
+
+export type SyncState = {
+  isOnline: boolean
+  isSyncing: boolean
+  pendingCount: number
+  conflictCount: number
+  lastError: string
+}
+
+/** Outbox controls exposed next to the TradeRepository methods. */
+export type TradeSync = {
+  listCachedTrades: (userId: string) => Promise<TradeEntry[]>
+  syncPending: () => Promise<void>
+  resolveConflict: (tradeId: string, resolution: ConflictResolution) => Promise<void>
+  getSyncState: () => SyncState
+  /** Called whenever the cache or the outbox changes, e.g. after a replay. */
+  subscribe: (listener: () => void) => () => void
+}
+
+export type OfflineTradeRepository = TradeRepository & TradeSync
+
+const mutationKey = () => `${String(Date.now()).padStart(15, '0')}-${createId()}`
+
+const isNetworkError = (error: unknown) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) ||
+  (error instanceof TypeError && /fetch|network/i.test(error.message))
+
+/**
+ * Payloads queued by clients from before multiple images were supported
+ * carry `imagePath`, a column the server no longer has.
+ */
+const withImagePaths = <T extends TradeUpdate>(payload: T): T => {
+  if (!('imagePath' in payload)) {
+    return payload
+  }
+  const { imagePath, ...rest } = payload as T & { imagePath?: string | null }
+  return { ...rest, imagePaths: rest.imagePaths ?? (imagePath ? [imagePath] : []) } as T
+}
+
+/** Brings a mutation read from the outbox up to the current payload shapes. */
+const upgradeMutation = (stored: OutboxMutation): OutboxMutation => {
+  const mutation = stored.conflict
+    ? {
+        ...stored,
+        conflict: {
+          server: stored.conflict.server && withEntryDefaults(stored.conflict.server),
+          fields: stored.conflict.fields.map((field) =>
+            (field as string) === 'imagePath' ? 'imagePaths' : field
+          ),
+        },
+      }
+    : stored
+  switch (mutation.kind) {
+    case 'create':
+      return {
+        ...mutation,
+        input: { ...withImagePaths(mutation.input), imageAnnotations: mutation.input.imageAnnotations ?? {} },
+      }
+    case 'update':
+      return { ...mutation, update: withImagePaths(mutation.update), base: withEntryDefaults(mutation.base) }
+    case 'delete':
+      return { ...mutation, base: withEntryDefaults(mutation.base) }
+    default:
+      return mutation
+  }
+}
+
+const stripClientFields = (entry: TradeEntry): TradeEntry => {
+  const stored = { ...entry }
+  delete stored.syncStatus
+  return stored
+}
+
+/**
+ * Wraps a remote repository with an IndexedDB cache and a persistent outbox.
+ * Mutations are applied to the cache immediately and replayed in order once
+ * the remote is reachable. Edits made against a stale copy are merged field
+ * by field; overlapping edits are parked as conflicts until the user picks
+ * a side with resolveConflict.
+ */
+export function createOfflineTradeRepository(
+  remote: TradeRepository,
+  db: LocalDatabase = openLocalDatabase()
+): OfflineTradeRepository {
+  const listeners = new Set<() => void>()
+  const objectUrls = new Map<string, string>()
+  let syncPromise: Promise<void> | null = null
+  let state: SyncState = {
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    isSyncing: false,
+    pendingCount: 0,
+    conflictCount: 0,
+    lastError: '',
+  }
+
+  // Server versions written by this tab (null once deleted), so the realtime
+  // echo of a replayed edit is not reported as a change made elsewhere.
+  const ownWrites = new Map<string, string | null>()
+
+  const notify = () => {
+    listeners.forEach((listener) => listener())
+  }
+
+  const rememberWrite = (entry: TradeEntry) => {
+    ownWrites.set(entry.id, entry.updatedAt)
+    return entry
+  }
+
+  const rememberDelete = (tradeId: string) => {
+    ownWrites.set(tradeId, null)
+  }
+
+  const isOwnEcho = (change: TradeChange) => {
+    const tradeId = change.kind === 'delete' ? change.tradeId : change.entry.id
+    const written = ownWrites.get(tradeId)
+    const matches =
+      written !== undefined && (change.kind === 'delete' ? written === null : written === change.entry.updatedAt)
+    if (matches) {
+      ownWrites.delete(tradeId)
+    }
+    return matches
+  }
+
+  const setState = (patch: Partial<SyncState>) => {
+    state = { ...state, ...patch }
+    notify()
+  }
+
+  const readOutbox = async () => {
+    const mutations = await db.getAll<OutboxMutation>('outbox')
+    return mutations.map(upgradeMutation).sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  const refreshCounts = async () => {
+    const outbox = await readOutbox()
+    setState({
+      pendingCount: outbox.filter((mutation) => !mutation.conflict).length,
+      conflictCount: outbox.filter((mutation) => mutation.conflict).length,
+    })
+  }
+
+  const enqueue = async (mutation: OutboxMutation) => {
+    await db.put('outbox', mutation.key, mutation)
+  }
+
+  const dequeue = async (mutation: OutboxMutation) => {
+    await db.delete('outbox', mutation.key)
+  }
+
+  const tradeMutations = (outbox: OutboxMutation[], tradeId: string) =>
+    outbox.filter((mutation) => 'tradeId' in mutation && mutation.tradeId === tradeId)
+
+  const statusFor = (outbox: OutboxMutation[], tradeId: string): TradeEntry['syncStatus'] => {
+    const pending = tradeMutations(outbox, tradeId)
+    if (pending.some((mutation) => mutation.conflict)) {
+      return 'conflict'
+    }
+    return pending.length ? 'pending' : 'synced'
+  }
+
+  const cacheEntry = async (entry: TradeEntry, outbox?: OutboxMutation[]) => {
+    const currentOutbox = outbox ?? (await readOutbox())
+    await db.put<TradeEntry>('cachedTrades', entry.id, {
+      ...stripClientFields(entry),
+      syncStatus: statusFor(currentOutbox, entry.id),
+    })
+  }
+
+  const requireCached = async (id: string) => {
+    const entry = await db.get<TradeEntry>('cachedTrades', id)
+    if (!entry) {
+      throw new Error('取引が見つかりませんでした。')
+    }
+    return withEntryDefaults(entry)
+  }
+
+  const listCachedRevisions = async (tradeId: string) => {
+    const cached = await db.getAll<TradeRevision>('cachedRevisions')
+    return cached
+      .filter((revision) => revision.tradeId === tradeId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  const listCachedTrades = async (userId: string) => {
+    const cached = await db.getAll<TradeEntry>('cachedTrades')
+    return cached
+      .filter((entry) => entry.userId === userId)
+      .map(withEntryDefaults)
+      .sort((a, b) => b.tradeDate.localeCompare(a.tradeDate))
+  }
+
+  const parkConflict = async (
+    mutation: Extract<OutboxMutation, { kind: 'update' | 'delete' }>,
+    conflict: Conflict
+  ) => {
+    await enqueue({ ...mutation, conflict })
+    // A conflicting delete brings the server copy back so the user can decide.
+    const local =
+      mutation.kind === 'delete' ? conflict.server : await db.get<TradeEntry>('cachedTrades', mutation.tradeId)
+    if (local) {
+      await cacheEntry(local)
+    }
+  }
+
+  const replay = async (mutation: OutboxMutation) => {
+    switch (mutation.kind) {
+      case 'uploadImage': {
+        const pending = await db.get<PendingImage>('pendingImages', mutation.path)
+        if (pending) {
+          try {
+            await remote.uploadImage(mutation.userId, pending.file, mutation.path)
+          } catch (error) {
+            // A previous attempt may have landed before the connection dropped.
+            if (!(error instanceof Error && /already exists/i.test(error.message))) {
+              throw error
+            }
+          }
+          await db.delete('pendingImages', mutation.path)
+        }
+        await dequeue(mutation)
+        return
+      }
+      case 'removeImage': {
+        await remote.removeImage(mutation.path)
+        await dequeue(mutation)
+        return
+      }
+      case 'create': {
+        const existing = await remote.getTrade(mutation.tradeId)
+        const created =
+          existing ?? rememberWrite(await remote.createTrade(mutation.userId, mutation.input, mutation.tradeId))
+        await dequeue(mutation)
+        await cacheEntry(created)
+        return
+      }
+      case 'update': {
+        const server = await remote.getTrade(mutation.tradeId)
+        if (!server) {
+          await parkConflict(mutation, { server: null, fields: [] })
+          return
+        }
+        let update = mutation.update
+        if (server.updatedAt !== mutation.base.updatedAt) {
+          const changedOnServer = TRADE_FIELDS.filter(
+            (field) => normalizeField(server, field) !== normalizeField(mutation.base, field)
+          )
+          const differing = changedFields(server, update)
+          const overlapping = changedOnServer.filter((field) => field in differing)
+          if (overlapping.length) {
+            await parkConflict(mutation, { server, fields: overlapping })
+            return
+          }
+          update = Object.fromEntries(
+            Object.entries(update).filter(([field]) => !changedOnServer.includes(field as keyof TradeUpdate))
+          ) as TradeUpdate
+        }
+        const updated = Object.keys(update).length
+          ? rememberWrite(await remote.updateTrade(mutation.tradeId, update))
+          : server
+        await dequeue(mutation)
+        await cacheEntry(updated)
+        return
+      }
+      case 'createRevision': {
+        const { revision } = mutation
+        try {
+          await remote.createRevision(revision.userId, revision.tradeId, revision.snapshot, revision.id)
+        } catch (error) {
+          if (!(error instanceof Error && /duplicate key/i.test(error.message))) {
+            throw error
+          }
+        }
+        await dequeue(mutation)
+        return
+      }
+      case 'delete': {
+        const server = await remote.getTrade(mutation.tradeId)
+        if (server && server.updatedAt !== mutation.base.updatedAt) {
+          await parkConflict(mutation, { server, fields: [] })
+          return
+        }
+        if (server) {
+          await remote.deleteTrade(mutation.tradeId)
+          rememberDelete(mutation.tradeId)
+        }
+        await dequeue(mutation)
+        return
+      }
+    }
+  }
+
+  const runSync = async () => {
+    setState({ isSyncing: true, lastError: '' })
+    try {
+      for (const mutation of await readOutbox()) {
+        if (mutation.conflict) {
+          continue
+        }
+        await replay(mutation)
+        await refreshCounts()
+      }
+      setState({ isOnline: true })
+    } catch (error) {
+      console.warn('Failed to replay outbox:', error)
+      setState({
+        isOnline: !isNetworkError(error),
+        lastError: error instanceof Error ? error.message : '同期に失敗しました。',
+      })
+    } finally {
+      await refreshCounts()
+      setState({ isSyncing: false })
+    }
+  }
+
+  const syncPending = () => {
+    if (!syncPromise) {
+      syncPromise = runSync().finally(() => {
+        syncPromise = null
+      })
+    }
+    return syncPromise
+  }
+
+  const scheduleSync = () => {
+    if (state.isOnline) {
+      void syncPending()
+    }
+  }
+
+  // Aggregates run on the server when it is reachable and are computed over
+  // the cache otherwise.
+  const aggregate = async <T>(
+    userId: string,
+    filter: TradeFilter,
+    fetchRemote: () => Promise<T>,
+    summarize: (entries: TradeEntry[]) => T
+  ) => {
+    if (state.isOnline) {
+      try {
+        await syncPending()
+        return await fetchRemote()
+      } catch (error) {
+        console.warn('Falling back to cached totals:', error)
+        setState({ isOnline: !isNetworkError(error) })
+      }
+    }
+    const cached = await listCachedTrades(userId)
+    return summarize(cached.filter((entry) => matchesTradeFilter(entry, filter)))
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      setState({ isOnline: true })
+      void syncPending()
+    })
+    window.addEventListener('offline', () => setState({ isOnline: false }))
+  }
+
+  void refreshCounts()
+
+  return {
+    listCachedTrades,
+    syncPending,
+    getSyncState: () => state,
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    async resolveConflict(tradeId, resolution) {
+      const outbox = await readOutbox()
+      const mutation = tradeMutations(outbox, tradeId).find((candidate) => candidate.conflict)
+      if (!mutation?.conflict || (mutation.kind !== 'update' && mutation.kind !== 'delete')) {
+        return
+      }
+      const { server } = mutation.conflict
+
+      if (resolution === 'server') {
+        await dequeue(mutation)
+        if (server) {
+          await cacheEntry(server)
+        } else {
+          await db.delete('cachedTrades', tradeId)
+        }
+      } else if (mutation.kind === 'delete') {
+        await remote.deleteTrade(tradeId)
+        rememberDelete(tradeId)
+        await dequeue(mutation)
+        await db.delete('cachedTrades', tradeId)
+      } else {
+        const local = await requireCached(tradeId)
+        const resolved = server
+          ? await remote.updateTrade(tradeId, mutation.update)
+          : await remote.createTrade(
+              local.userId,
+              {
+                tradeDate: local.tradeDate,
+                ticker: local.ticker,
+                tickerName: local.tickerName || null,
+                realizedProfit: local.realizedProfit,
+                side: local.side,
+                entryPrice: local.entryPrice,
+                exitPrice: local.exitPrice,
+                quantity: local.quantity,
+                commission: local.commission,
+                entryTime: local.entryTime,
+                exitTime: local.exitTime,
+                fills: local.fills,
+                tagIds: local.tagIds,
+                reason: local.reason,
+                reflection: local.reflection,
+                imagePaths: local.imagePaths,
+                imageAnnotations: local.imageAnnotations,
+              },
+              tradeId
+            )
+        rememberWrite(resolved)
+        await dequeue(mutation)
+        await cacheEntry(resolved)
+      }
+
+      await refreshCounts()
+      scheduleSync()
+    },
+
+    // Queries run on the server when it is reachable and fall back to the
+    // cache, which holds whatever has been fetched so far plus local edits.
+    async queryTrades(userId, filter, range) {
+      if (!state.isOnline) {
+        return pageTrades(await listCachedTrades(userId), filter, range)
+      }
+
+      try {
+        await syncPending()
+        const page = await remote.queryTrades(userId, filter, range)
+        const outbox = await readOutbox()
+        const cachedById = new Map((await listCachedTrades(userId)).map((entry) => [entry.id, entry]))
+        const serverIds = new Set(page.entries.map((entry) => entry.id))
+
+        // Entries with unsent local changes (parked conflicts) keep their local copy.
+        const entries = page.entries.map((entry) =>
+          tradeMutations(outbox, entry.id).length ? cachedById.get(entry.id) ?? entry : entry
+        )
+        await Promise.all(entries.map((entry) => cacheEntry(entry, outbox)))
+        // An unpaged result is complete, so cached matches missing from it were deleted remotely.
+        if (!range) {
+          await Promise.all(
+            [...cachedById.values()]
+              .filter(
+                (entry) =>
+                  !serverIds.has(entry.id) &&
+                  !tradeMutations(outbox, entry.id).length &&
+                  matchesTradeFilter(entry, filter)
+              )
+              .map((entry) => db.delete('cachedTrades', entry.id))
+          )
+        }
+        notify()
+        return {
+          entries: await Promise.all(entries.map((entry) => requireCached(entry.id))),
+          total: page.total,
+        }
+      } catch (error) {
+        console.warn('Falling back to cached trades:', error)
+        setState({ isOnline: !isNetworkError(error) })
+        return pageTrades(await listCachedTrades(userId), filter, range)
+      }
+    },
+
+    async listDailyTotals(userId, filter) {
+      return aggregate(userId, filter, () => remote.listDailyTotals(userId, filter), totalsByDay)
+    },
+
+    async getPerformance(userId, filter) {
+      return aggregate(userId, filter, () => remote.getPerformance(userId, filter), measurePerformance)
+    },
+
+    async listTagTotals(userId, filter) {
+      return aggregate(userId, filter, () => remote.listTagTotals(userId, filter), totalsByTag)
+    },
+
+    async listTimingTotals(userId, filter) {
+      return aggregate(userId, filter, () => remote.listTimingTotals(userId, filter), totalsByTiming)
+    },
+
+    async listTickerTotals(userId, filter) {
+      return aggregate(userId, filter, () => remote.listTickerTotals(userId, filter), totalsByTicker)
+    },
+
+    // Cached copies carry any local edits; a trade never fetched before (an
+    // opened link, say) comes from the server.
+    async getTrade(id) {
+      const entry = await db.get<TradeEntry>('cachedTrades', id)
+      if (entry) {
+        return withEntryDefaults(entry)
+      }
+      if (!state.isOnline) {
+        return null
+      }
+
+      try {
+        const fetched = await remote.getTrade(id)
+        if (!fetched) {
+          return null
+        }
+        await cacheEntry(fetched)
+        return requireCached(id)
+      } catch (error) {
+        console.warn('Failed to fetch trade:', error)
+        setState({ isOnline: !isNetworkError(error) })
+        return null
+      }
+    },
+
+    async createTrade(userId, input, id = createId()) {
+      const now = new Date().toISOString()
+      await enqueue({ key: mutationKey(), kind: 'create', tradeId: id, userId, input })
+      const entry: TradeEntry = {
+        id,
+        userId,
+        ...input,
+        tickerName: input.tickerName ?? '',
+        deletedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      }
+      await cacheEntry(entry)
+      await refreshCounts()
+      scheduleSync()
+      return requireCached(id)
+    },
+
+    async createTrades(userId, inputs) {
+      const created: TradeEntry[] = []
+      for (const input of inputs) {
+        created.push(await this.createTrade(userId, input))
+      }
+      return created
+    },
+
+    async updateTrade(id, update) {
+      const current = await requireCached(id)
+      const outbox = await readOutbox()
+      const pending = tradeMutations(outbox, id)
+      const pendingCreate = pending.find((mutation) => mutation.kind === 'create')
+      const pendingUpdate = pending.find((mutation) => mutation.kind === 'update')
+
+      if (pendingCreate?.kind === 'create') {
+        await enqueue({ ...pendingCreate, input: { ...pendingCreate.input, ...update } })
+      } else if (pendingUpdate?.kind === 'update') {
+        await enqueue({ ...pendingUpdate, update: { ...pendingUpdate.update, ...update } })
+      } else {
+        await enqueue({ key: mutationKey(), kind: 'update', tradeId: id, update, base: current })
+      }
+
+      await cacheEntry({
+        ...current,
+        ...update,
+        tickerName: update.tickerName === undefined ? current.tickerName : update.tickerName ?? '',
+        updatedAt: new Date().toISOString(),
+      })
+      await refreshCounts()
+      scheduleSync()
+      return requireCached(id)
+    },
+
+    async deleteTrade(id) {
+      const current = await requireCached(id)
+      const pending = tradeMutations(await readOutbox(), id)
+      await Promise.all(pending.map(dequeue))
+
+      // Trades that never reached the server only need their local traces removed.
+      if (!pending.some((mutation) => mutation.kind === 'create')) {
+        const base = pending.find((mutation) => mutation.kind === 'update')
+        await enqueue({
+          key: mutationKey(),
+          kind: 'delete',
+          tradeId: id,
+          base: base?.kind === 'update' ? base.base : current,
+        })
+      }
+
+      await db.delete('cachedTrades', id)
+      const revisions = await listCachedRevisions(id)
+      await Promise.all(revisions.map((revision) => db.delete('cachedRevisions', revision.id)))
+      await refreshCounts()
+      scheduleSync()
+    },
+
+    async listRevisions(tradeId) {
+      if (!state.isOnline) {
+        return listCachedRevisions(tradeId)
+      }
+      try {
+        const revisions = await remote.listRevisions(tradeId)
+        await Promise.all(revisions.map((revision) => db.put('cachedRevisions', revision.id, revision)))
+      } catch (error) {
+        console.warn('Falling back to cached revisions:', error)
+        setState({ isOnline: !isNetworkError(error) })
+      }
+      // The cache also holds revisions still waiting in the outbox.
+      return listCachedRevisions(tradeId)
+    },
+
+    async createRevision(userId, tradeId, snapshot, id = createId()) {
+      const revision: TradeRevision = { id, tradeId, userId, snapshot, createdAt: new Date().toISOString() }
+      await db.put('cachedRevisions', id, revision)
+      await enqueue({ key: mutationKey(), kind: 'createRevision', tradeId, revision })
+      await refreshCounts()
+      scheduleSync()
+      return revision
+    },
+
+    async uploadImage(userId, file, path = buildImagePath(userId, file)) {
+      await db.put<PendingImage>('pendingImages', path, { userId, file })
+      await enqueue({ key: mutationKey(), kind: 'uploadImage', userId, path })
+      await refreshCounts()
+      scheduleSync()
+      return path
+    },
+
+    async removeImage(path) {
+      const pendingUpload = (await readOutbox()).find(
+        (mutation) => mutation.kind === 'uploadImage' && mutation.path === path
+      )
+      if (pendingUpload) {
+        await dequeue(pendingUpload)
+        await db.delete('pendingImages', path)
+      } else {
+        await enqueue({ key: mutationKey(), kind: 'removeImage', path })
+      }
+
+      const url = objectUrls.get(path)
+      if (url) {
+        URL.revokeObjectURL(url)
+        objectUrls.delete(path)
+      }
+      await refreshCounts()
+      scheduleSync()
+    },
+
+    // Tags are small reference data: reads fall back to the cache offline,
+    // writes go straight to the remote.
+    async listTags(userId) {
+      try {
+        const tags = await remote.listTags(userId)
+        const cached = await db.getAll<Tag>('cachedTags')
+        await Promise.all(
+          cached.filter((tag) => tag.userId === userId).map((tag) => db.delete('cachedTags', tag.id))
+        )
+        await Promise.all(tags.map((tag) => db.put('cachedTags', tag.id, tag)))
+        return tags
+      } catch (error) {
+        console.warn('Falling back to cached tags:', error)
+        const cached = await db.getAll<Tag>('cachedTags')
+        return cached
+          .filter((tag) => tag.userId === userId)
+          .sort((a, b) => a.name.localeCompare(b.name, 'ja'))
+      }
+    },
+
+    async createTag(userId, name) {
+      const tag = await remote.createTag(userId, name)
+      await db.put('cachedTags', tag.id, tag)
+      return tag
+    },
+
+    async renameTag(id, name) {
+      const tag = await remote.renameTag(id, name)
+      await db.put('cachedTags', tag.id, tag)
+      return tag
+    },
+
+    async deleteTag(id) {
+      await remote.deleteTag(id)
+      await db.delete('cachedTags', id)
+    },
+
+    // Remote changes refresh the cache, except for trades with unsent local
+    // edits: those keep the local copy until the outbox is replayed.
+    subscribeToChanges(userId, listener) {
+      return remote.subscribeToChanges(userId, (change) => {
+        const apply = async () => {
+          const tradeId = change.kind === 'delete' ? change.tradeId : change.entry.id
+          const outbox = await readOutbox()
+          // Replayed edits reach the app through the sync state instead.
+          if (isOwnEcho(change) || tradeMutations(outbox, tradeId).length) {
+            return
+          }
+          if (change.kind === 'delete') {
+            await db.delete('cachedTrades', tradeId)
+            listener(change)
+          } else {
+            await cacheEntry(change.entry, outbox)
+            listener({ kind: 'upsert', entry: await requireCached(tradeId) })
+          }
+        }
+        apply().catch((error) => console.warn('Failed to apply a remote change:', error))
+      })
+    },
+
+    // Images still waiting in the outbox are shown from their local copy.
+    async getImageUrls(paths) {
+      const urls: Record<string, SignedImageUrl> = {}
+      const remotePaths: string[] = []
+      for (const path of paths) {
+        let url = objectUrls.get(path)
+        if (!url) {
+          const pending = await db.get<PendingImage>('pendingImages', path)
+          if (pending) {
+            url = URL.createObjectURL(pending.file)
+            objectUrls.set(path, url)
+          }
+        }
+        if (url) {
+          urls[path] = { url, expiresAt: null }
+        } else {
+          remotePaths.push(path)
+        }
+      }
+      if (!state.isOnline || !remotePaths.length) {
+        return urls
+      }
+      return { ...urls, ...(await remote.getImageUrls(remotePaths)) }
+    },
+  }
+}
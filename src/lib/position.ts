@@ -0,0 +1,111 @@
+import type { FillDraft, TradeEntry, TradeFill, TradeSide } from '../types'
+import { parseFillDrafts, summarizeFills } from './fills'
+
+export const SIDE_LABELS: Record<TradeSide, string> = {
+  long: '買い',
+  short: '売り',
+}
+
+export type PositionFields = {
+  side: TradeSide | null
+  entryPrice: number | null
+  exitPrice: number | null
+  quantity: number | null
+  commission: number | null
+  fills: TradeFill[]
+}
+
+export type PositionInputs = {
+  side: TradeSide | ''
+  entryPrice: string
+  exitPrice: string
+  quantity: string
+  commission: string
+  fills: FillDraft[]
+}
+
+const parseOptionalNumber = (value: string) => {
+  const trimmed = value.trim()
+  if (!trimmed) {
+    return null
+  }
+  const parsed = Number(trimmed)
+  return Number.isFinite(parsed) ? parsed : Number.NaN
+}
+
+/**
+ * Validates form inputs; returns an error message instead of fields when
+ * something is off. When fills are given they take precedence over the
+ * single entry/exit price and quantity inputs.
+ */
+export const parsePositionInputs = (
+  inputs: PositionInputs
+): { fields: PositionFields; error: null } | { fields: null; error: string } => {
+  const entryPrice = parseOptionalNumber(inputs.entryPrice)
+  const exitPrice = parseOptionalNumber(inputs.exitPrice)
+  const quantity = parseOptionalNumber(inputs.quantity)
+  const commission = parseOptionalNumber(inputs.commission)
+
+  if ([entryPrice, exitPrice, quantity, commission].some((value) => Number.isNaN(value))) {
+    return { fields: null, error: '価格・数量・手数料は数値で入力してください。' }
+  }
+  if ((entryPrice !== null && entryPrice <= 0) || (exitPrice !== null && exitPrice <= 0)) {
+    return { fields: null, error: '価格は0より大きい値を入力してください。' }
+  }
+  if (quantity !== null && (quantity <= 0 || !Number.isInteger(quantity))) {
+    return { fields: null, error: '数量は1以上の整数で入力してください。' }
+  }
+  if (commission !== null && commission < 0) {
+    return { fields: null, error: '手数料は0以上で入力してください。' }
+  }
+
+  const parsedFills = parseFillDrafts(inputs.fills)
+  if (!parsedFills.fills) {
+    return { fields: null, error: parsedFills.error }
+  }
+
+  const summary = summarizeFills(parsedFills.fills)
+  if (summary) {
+    return {
+      fields: {
+        side: summary.side,
+        entryPrice: summary.averageEntryPrice,
+        exitPrice: summary.averageExitPrice,
+        quantity: summary.positionSize || null,
+        commission,
+        fills: parsedFills.fills,
+      },
+      error: null,
+    }
+  }
+
+  return {
+    fields: { side: inputs.side || null, entryPrice, exitPrice, quantity, commission, fills: [] },
+    error: null,
+  }
+}
+
+const direction = (side: TradeSide | null) => (side === 'short' ? -1 : 1)
+
+/** Signed price move per share in the trade's favour, or null without both prices. */
+export const perShareMove = ({ side, entryPrice, exitPrice }: Pick<PositionFields, 'side' | 'entryPrice' | 'exitPrice'>) =>
+  entryPrice !== null && exitPrice !== null ? (exitPrice - entryPrice) * direction(side) : null
+
+/** Realized P&L after commission, or null when prices or quantity are missing. */
+export const computeRealizedProfit = (fields: PositionFields) => {
+  const summary = summarizeFills(fields.fills, fields.side)
+  if (summary) {
+    return summary.grossProfit === null ? null : summary.grossProfit - (fields.commission ?? 0)
+  }
+  const move = perShareMove(fields)
+  if (move === null || fields.quantity === null) {
+    return null
+  }
+  return move * fields.quantity - (fields.commission ?? 0)
+}
+
+/** Price return in the trade's direction, as a ratio (0.012 = 1.2%). */
+export const returnRate = (entry: Pick<TradeEntry, 'side' | 'entryPrice' | 'exitPrice'>) => {
+  const move = perShareMove(entry)
+  return move !== null && entry.entryPrice ? move / entry.entryPrice : null
+}
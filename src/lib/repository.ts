@@ -0,0 +1,25 @@
+import { supabase, isSupabaseConfigured } from './supabaseClient'
+import { createLocalTradeRepository } from './localTradeRepository'
+import { createOfflineTradeRepository } from './offlineTradeRepository'
+import type { TradeSync } from './offlineTradeRepository'
+import { createSupabaseTradeRepository } from './supabaseTradeRepository'
+import { withTabBroadcast } from './tabBroadcast'
+import type { TradeRepository } from './tradeRepository'
+
+export type StorageMode = 'supabase' | 'local'
+
+// VITE_TRADE_STORAGE=local forces the in-browser backend; it is also used
+// automatically when no Supabase project is configured.
+export const storageMode: StorageMode =
+  import.meta.env.VITE_TRADE_STORAGE === 'local' || !isSupabaseConfigured ? 'local' : 'supabase'
+
+/** User id that owns entries in local mode, where there is no Supabase Auth session. */
+export const LOCAL_USER_ID = 'local-user'
+
+const offlineRepository =
+  storageMode === 'supabase' ? createOfflineTradeRepository(createSupabaseTradeRepository(supabase)) : null
+
+export const tradeRepository: TradeRepository = withTabBroadcast(offlineRepository ?? createLocalTradeRepository())
+
+/** Outbox controls; null in local mode, where every write is already local. */
+export const tradeSync: TradeSync | null = offlineRepository
@@ -0,0 +1,115 @@
+import type { Tag } from '../types'
+import { formatFill } from './fills'
+import { SIDE_LABELS } from './position'
+import type { RevisionSnapshot } from './tradeRepository'
+
+/** Fields in the order the history panel lists them. */
+const REVISION_FIELD_LABELS: Record<keyof RevisionSnapshot, string> = {
+  tradeDate: '売買日',
+  ticker: '銘柄コード',
+  tickerName: '銘柄名',
+  side: '売買区分',
+  entryPrice: '建値',
+  exitPrice: '決済価格',
+  quantity: '数量',
+  commission: '手数料',
+  realizedProfit: '損益',
+  entryTime: 'エントリー時刻',
+  exitTime: '決済時刻',
+  fills: '約定',
+  tagIds: 'タグ',
+  reason: '売買理由',
+  reflection: '振り返り',
+}
+
+export type FieldChange = {
+  field: keyof RevisionSnapshot
+  label: string
+  before: string
+  after: string
+}
+
+const numberFormatter = new Intl.NumberFormat('ja-JP', { maximumFractionDigits: 2 })
+
+const formatField = (snapshot: RevisionSnapshot, field: keyof RevisionSnapshot, tagsById: Map<string, Tag>) => {
+  switch (field) {
+    case 'side':
+      return snapshot.side ? SIDE_LABELS[snapshot.side] : ''
+    case 'fills':
+      return snapshot.fills.map(formatFill).join('\n')
+    case 'tagIds':
+      return snapshot.tagIds.map((id) => tagsById.get(id)?.name ?? '(削除済みのタグ)').join(', ')
+    case 'entryPrice':
+    case 'exitPrice':
+    case 'quantity':
+    case 'commission':
+    case 'realizedProfit': {
+      const value = snapshot[field]
+      return value === null ? '' : numberFormatter.format(value)
+    }
+    default:
+      return snapshot[field] ?? ''
+  }
+}
+
+/** Fields that differ between two versions, with display strings for both sides. */
+export const diffSnapshots = (
+  before: RevisionSnapshot,
+  after: RevisionSnapshot,
+  tagsById: Map<string, Tag>
+): FieldChange[] =>
+  (Object.keys(REVISION_FIELD_LABELS) as Array<keyof RevisionSnapshot>).flatMap((field) => {
+    const beforeText = formatField(before, field, tagsById)
+    const afterText = formatField(after, field, tagsById)
+    return beforeText === afterText ? [] : [{ field, label: REVISION_FIELD_LABELS[field], before: beforeText, after: afterText }]
+  })
+
+/** One row of the side-by-side view; null where the line exists only on the other side. */
+export type DiffRow = { left: string | null; right: string | null }
+
+/**
+ * Line-level diff for the side-by-side view, as aligned rows so unchanged
+ * lines sit next to each other. Within a run of edits, removed and added
+ * lines share rows in order; the longer side is padded with nulls.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before ? before.split('\n') : []
+  const b = after ? after.split('\n') : []
+  // Longest common subsequence table; journal notes are a few dozen lines.
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let removed: string[] = []
+  let added: string[] = []
+  const flushEdits = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k += 1) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null })
+    }
+    removed = []
+    added = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flushEdits()
+      rows.push({ left: a[i], right: b[j] })
+      i += 1
+      j += 1
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(a[i])
+      i += 1
+    } else {
+      added.push(b[j])
+      j += 1
+    }
+  }
+  flushEdits()
+  return rows
+}
@@ -0,0 +1,167 @@
+import type { MouseEvent } from 'react'
+import type { WeekdayFilter } from '../types'
+import type { SummaryRange } from './summaryPeriod'
+
+export type AppRoute =
+  | { view: 'dashboard' }
+  | { view: 'calendar'; month: string | null }
+  | { view: 'trade'; tradeId: string }
+  | { view: 'tickers' | 'newEntry' | 'import' | 'settings' | 'trash' | 'login' | 'resetPassword' | 'profile' }
+
+export type AppView = AppRoute['view']
+
+/** Dashboard list state mirrored in the query string. */
+export type ListQuery = {
+  summaryRange: SummaryRange
+  weekdayFilter: WeekdayFilter
+  searchTerm: string
+  currentPage: number
+}
+
+export const DEFAULT_LIST_QUERY: ListQuery = {
+  summaryRange: 'daily',
+  weekdayFilter: 'all',
+  searchTerm: '',
+  currentPage: 1,
+}
+
+const SUMMARY_RANGES: SummaryRange[] = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly', 'all', 'custom']
+
+const STATIC_PATHS = {
+  tickers: 'tickers',
+  newEntry: 'new',
+  import: 'import',
+  settings: 'settings',
+  trash: 'trash',
+  login: 'login',
+  resetPassword: 'reset-password',
+  profile: 'profile',
+} as const
+
+// Vite's `base` (e.g. /DayTraderDiary/); routes are relative to it.
+const BASE = import.meta.env.BASE_URL.replace(/\/$/, '')
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+/** Path segments after the base, or null when one is not valid percent-encoding. */
+const pathSegments = (pathname: string) => {
+  const relative = pathname.startsWith(BASE) ? pathname.slice(BASE.length) : pathname
+  try {
+    return relative.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return null
+  }
+}
+
+export const parseRoute = (pathname: string): AppRoute => {
+  const segments = pathSegments(pathname)
+  if (!segments) {
+    return { view: 'dashboard' }
+  }
+  const [head = '', param, ...rest] = segments
+
+  if (rest.length) {
+    return { view: 'dashboard' }
+  }
+  if (head === 'calendar') {
+    return { view: 'calendar', month: param && MONTH_PATTERN.test(param) ? param : null }
+  }
+  if (head === 'trades' && param) {
+    return { view: 'trade', tradeId: param }
+  }
+  const view = (Object.keys(STATIC_PATHS) as Array<keyof typeof STATIC_PATHS>).find(
+    (key) => STATIC_PATHS[key] === head
+  )
+  return view && !param ? { view } : { view: 'dashboard' }
+}
+
+const routePath = (route: AppRoute) => {
+  switch (route.view) {
+    case 'dashboard':
+      return '/'
+    case 'calendar':
+      return route.month ? `/calendar/${route.month}` : '/calendar'
+    case 'trade':
+      return `/trades/${encodeURIComponent(route.tradeId)}`
+    default:
+      return `/${STATIC_PATHS[route.view]}`
+  }
+}
+
+export const parseListQuery = (search: string): ListQuery => {
+  const params = new URLSearchParams(search)
+  const range = params.get('range')
+  const weekday = params.get('weekday')
+  const page = Number(params.get('page'))
+
+  return {
+    summaryRange: SUMMARY_RANGES.find((value) => value === range) ?? DEFAULT_LIST_QUERY.summaryRange,
+    weekdayFilter:
+      weekday === 'friSatSun'
+        ? 'friSatSun'
+        : weekday === '1' || weekday === '2' || weekday === '3' || weekday === '4'
+          ? (Number(weekday) as WeekdayFilter)
+          : DEFAULT_LIST_QUERY.weekdayFilter,
+    searchTerm: params.get('q') ?? DEFAULT_LIST_QUERY.searchTerm,
+    currentPage: Number.isInteger(page) && page > 1 ? page : DEFAULT_LIST_QUERY.currentPage,
+  }
+}
+
+/** Query string for the list state; defaults are omitted to keep links short. */
+export const buildListQuery = (query: ListQuery) => {
+  const params = new URLSearchParams()
+  if (query.summaryRange !== DEFAULT_LIST_QUERY.summaryRange) {
+    params.set('range', query.summaryRange)
+  }
+  if (query.weekdayFilter !== DEFAULT_LIST_QUERY.weekdayFilter) {
+    params.set('weekday', String(query.weekdayFilter))
+  }
+  if (query.searchTerm) {
+    params.set('q', query.searchTerm)
+  }
+  if (query.currentPage > 1) {
+    params.set('page', String(query.currentPage))
+  }
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
+
+export const routeHref = (route: AppRoute, search = '') => `${BASE}${routePath(route)}${search}`
+
+const listeners = new Set<() => void>()
+
+/** For useSyncExternalStore: history changes made here and via back/forward. */
+export const subscribeToLocation = (listener: () => void) => {
+  listeners.add(listener)
+  window.addEventListener('popstate', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('popstate', listener)
+  }
+}
+
+export const getLocationSnapshot = () => `${window.location.pathname}${window.location.search}`
+
+export const navigate = (href: string, { replace = false } = {}) => {
+  if (href === getLocationSnapshot()) {
+    return
+  }
+  if (replace) {
+    window.history.replaceState(null, '', href)
+  } else {
+    window.history.pushState(null, '', href)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Click handler for in-app links: plain clicks navigate client-side, while
+ * modified clicks (new tab, new window) fall through to the browser.
+ */
+export const followLink = (event: MouseEvent<HTMLAnchorElement>, href: string) => {
+  if (event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+    return
+  }
+  event.preventDefault()
+  navigate(href)
+}
@@ -0,0 +1,116 @@
+import type { TradeEntry } from '../types'
+
+export type SummaryRange = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'all' | 'custom'
+
+export type DateRange = {
+  from: string
+  to: string
+}
+
+/** Inclusive YYYY-MM-DD bounds; null means open-ended. */
+export type SummaryPeriod = {
+  from: string | null
+  to: string | null
+  label: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(
+    2,
+    '0'
+  )}`
+
+const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+const dayLabel = new Intl.DateTimeFormat('ja-JP', { year: 'numeric', month: 'long', day: 'numeric' })
+const shortDayLabel = new Intl.DateTimeFormat('ja-JP', { month: 'numeric', day: 'numeric' })
+const monthLabel = new Intl.DateTimeFormat('ja-JP', { year: 'numeric', month: 'long' })
+
+const period = (from: Date, to: Date, label: string): SummaryPeriod => ({
+  from: toDateKey(from),
+  to: toDateKey(to),
+  label,
+})
+
+/**
+ * The period `offset` steps away from the one containing `today`
+ * (0 = current, -1 = previous). Weeks run Sunday to Saturday.
+ */
+export const resolveSummaryPeriod = (
+  range: SummaryRange,
+  offset: number,
+  custom: DateRange,
+  today = new Date()
+): SummaryPeriod => {
+  const base = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+
+  switch (range) {
+    case 'daily': {
+      const day = addDays(base, offset)
+      return period(day, day, dayLabel.format(day))
+    }
+    case 'weekly': {
+      const sunday = addDays(base, offset * 7 - base.getDay())
+      const saturday = addDays(sunday, 6)
+      return period(sunday, saturday, `${shortDayLabel.format(sunday)}〜${shortDayLabel.format(saturday)}`)
+    }
+    case 'monthly': {
+      const start = new Date(base.getFullYear(), base.getMonth() + offset, 1)
+      const end = new Date(start.getFullYear(), start.getMonth() + 1, 0)
+      return period(start, end, monthLabel.format(start))
+    }
+    case 'quarterly': {
+      const start = new Date(base.getFullYear(), Math.floor(base.getMonth() / 3) * 3 + offset * 3, 1)
+      const end = new Date(start.getFullYear(), start.getMonth() + 3, 0)
+      return period(start, end, `${start.getFullYear()}年 Q${Math.floor(start.getMonth() / 3) + 1}`)
+    }
+    case 'yearly': {
+      const year = base.getFullYear() + offset
+      return period(new Date(year, 0, 1), new Date(year, 11, 31), `${year}年`)
+    }
+    case 'custom': {
+      const from = custom.from || null
+      const to = custom.to || null
+      return { from, to, label: `${from ?? ''}〜${to ?? ''}` }
+    }
+    case 'all':
+    default:
+      return { from: null, to: null, label: '全期間' }
+  }
+}
+
+/**
+ * The equivalent period just before the given one: last month for a month,
+ * or a custom range of the same length ending the day before it starts.
+ */
+export const previousSummaryPeriod = (
+  range: SummaryRange,
+  offset: number,
+  custom: DateRange,
+  today = new Date()
+): SummaryPeriod | null => {
+  if (range === 'all') {
+    return null
+  }
+  if (range !== 'custom') {
+    return resolveSummaryPeriod(range, offset - 1, custom, today)
+  }
+  if (!custom.from || !custom.to || custom.from > custom.to) {
+    return null
+  }
+  const from = fromDateKey(custom.from)
+  const length = Math.round((fromDateKey(custom.to).getTime() - from.getTime()) / DAY_MS) + 1
+  const previousTo = addDays(from, -1)
+  const previousFrom = addDays(from, -length)
+  return period(previousFrom, previousTo, `${toDateKey(previousFrom)}〜${toDateKey(previousTo)}`)
+}
+
+export const isInPeriod = (entry: Pick<TradeEntry, 'tradeDate'>, { from, to }: SummaryPeriod) =>
+  (!from || entry.tradeDate >= from) && (!to || entry.tradeDate <= to)
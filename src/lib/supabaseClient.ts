@@ -11,7 +11,10 @@ if (!supabaseAnonKey) {
   console.warn('VITE_SUPABASE_ANON_KEY is not set. Supabase client will not work.')
 }
 
-export const supabase = createClient(supabaseUrl ?? '', supabaseAnonKey ?? '', {
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey)
+
+// createClient throws on an empty URL, so keep a placeholder to let the app boot in local mode.
+export const supabase = createClient(supabaseUrl || 'http://localhost:54321', supabaseAnonKey || 'anon', {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
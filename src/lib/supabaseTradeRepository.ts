@@ -0,0 +1,588 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AnnotationShape, FillSide, Tag, TradeEntry, TradeFill, TradeSide } from '../types'
+import { sortFills } from './fills'
+import { buildImagePath } from './tradeRepository'
+import type {
+  DailyTotal,
+  PageRange,
+  ProfitTotals,
+  RevisionSnapshot,
+  TagTotal,
+  TickerTotal,
+  TimingTotal,
+  TradeFilter,
+  TradeInput,
+  TradeListFilter,
+  TradePage,
+  TradePerformance,
+  TradeRepository,
+  TradeRevision,
+  TradeUpdate,
+} from './tradeRepository'
+
+const STORAGE_BUCKET = 'trade-images'
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+/** PostgREST caps responses at 1000 rows; unpaged queries are read in chunks of this size. */
+const QUERY_CHUNK_SIZE = 1000
+
+const TRADE_COLUMNS =
+  'id, user_id, trade_date, ticker, ticker_name, realized_profit, side, entry_price, exit_price, quantity, commission, entry_time, exit_time, tag_ids, reason, reflection, image_paths, image_annotations, deleted_at, created_at, updated_at, trade_fills(id, filled_at, side, price, quantity)'
+
+type FillRow = {
+  id: string
+  filled_at: string | null
+  side: FillSide
+  price: number
+  quantity: number
+}
+
+type TradeRow = {
+  id: string
+  user_id: string
+  trade_date: string
+  ticker: string
+  ticker_name: string | null
+  realized_profit: number | null
+  side: TradeSide | null
+  entry_price: number | null
+  exit_price: number | null
+  quantity: number | null
+  commission: number | null
+  entry_time: string | null
+  exit_time: string | null
+  tag_ids: string[] | null
+  reason: string | null
+  reflection: string | null
+  image_paths: string[] | null
+  image_annotations: Record<string, AnnotationShape[]> | null
+  deleted_at: string | null
+  created_at: string
+  updated_at: string
+  trade_fills?: FillRow[]
+}
+
+type TagRow = {
+  id: string
+  user_id: string
+  name: string
+  created_at: string
+}
+
+const TAG_COLUMNS = 'id, user_id, name, created_at'
+
+type RevisionRow = {
+  id: string
+  trade_id: string
+  user_id: string
+  snapshot: RevisionSnapshot
+  created_at: string
+}
+
+const REVISION_COLUMNS = 'id, trade_id, user_id, snapshot, created_at'
+
+const fromRevisionRow = (row: RevisionRow): TradeRevision => ({
+  id: row.id,
+  tradeId: row.trade_id,
+  userId: row.user_id,
+  snapshot: row.snapshot,
+  createdAt: row.created_at,
+})
+
+type TotalsRow = {
+  trade_count: number
+  profit_count: number
+  win_count: number
+  net_profit: number
+}
+
+const fromTotalsRow = (row: TotalsRow): ProfitTotals => ({
+  tradeCount: row.trade_count,
+  profitCount: row.profit_count,
+  winCount: row.win_count,
+  netProfit: row.net_profit,
+})
+
+type DailyTotalRow = TotalsRow & { trade_date: string }
+
+const fromDailyTotalRow = (row: DailyTotalRow): DailyTotal => ({
+  tradeDate: row.trade_date,
+  ...fromTotalsRow(row),
+})
+
+type TagTotalRow = TotalsRow & { tag_id: string }
+
+const fromTagTotalRow = (row: TagTotalRow): TagTotal => ({
+  tagId: row.tag_id,
+  ...fromTotalsRow(row),
+})
+
+type TickerTotalRow = TotalsRow & {
+  ticker: string
+  ticker_name: string
+  last_trade_date: string
+}
+
+const fromTickerTotalRow = (row: TickerTotalRow): TickerTotal => ({
+  ticker: row.ticker,
+  tickerName: row.ticker_name,
+  lastTradeDate: row.last_trade_date,
+  ...fromTotalsRow(row),
+})
+
+/** Exactly one of entry_slot and holding_minutes is set. */
+type TimingTotalRow = TotalsRow & {
+  entry_slot: string | null
+  holding_minutes: number | null
+}
+
+const fromTimingTotalRow = (row: TimingTotalRow): TimingTotal =>
+  row.entry_slot !== null
+    ? { entrySlot: row.entry_slot, ...fromTotalsRow(row) }
+    : { holdingMinutes: row.holding_minutes ?? 0, ...fromTotalsRow(row) }
+
+type PerformanceRow = {
+  gross_profit: number
+  gross_loss: number
+  win_count: number
+  loss_count: number
+  largest_win: number | null
+  largest_loss: number | null
+  max_consecutive_wins: number
+  max_consecutive_losses: number
+  max_drawdown: number
+  max_drawdown_rate: number | null
+}
+
+const fromPerformanceRow = (row: PerformanceRow): TradePerformance => ({
+  grossProfit: row.gross_profit,
+  grossLoss: row.gross_loss,
+  winCount: row.win_count,
+  lossCount: row.loss_count,
+  largestWin: row.largest_win,
+  largestLoss: row.largest_loss,
+  maxConsecutiveWins: row.max_consecutive_wins,
+  maxConsecutiveLosses: row.max_consecutive_losses,
+  maxDrawdown: row.max_drawdown,
+  maxDrawdownRate: row.max_drawdown_rate,
+})
+
+const PROFIT_OPERATORS = { '<': 'lt', '<=': 'lte', '>': 'gt', '>=': 'gte', '=': 'eq' } as const
+
+/** LIKE pattern matching `value` anywhere, with its wildcards taken literally. */
+const containsPattern = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`
+
+/** Quotes a value inside an `or=(...)` filter, where commas and parentheses are syntax. */
+const quoteFilterValue = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`
+
+const fromTagRow = (row: TagRow): Tag => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  createdAt: row.created_at,
+})
+
+const fromFillRow = (row: FillRow): TradeFill => ({
+  id: row.id,
+  time: row.filled_at?.slice(0, 5) ?? '',
+  side: row.side,
+  price: Number(row.price),
+  quantity: Number(row.quantity),
+})
+
+const toFillRow = (fill: TradeFill) => ({
+  id: fill.id,
+  filled_at: fill.time || null,
+  side: fill.side,
+  price: fill.price,
+  quantity: fill.quantity,
+})
+
+const fromTradeRow = (row: TradeRow): TradeEntry => ({
+  id: row.id,
+  userId: row.user_id,
+  tradeDate: row.trade_date,
+  ticker: row.ticker,
+  tickerName: row.ticker_name ?? '',
+  realizedProfit: row.realized_profit ?? null,
+  side: row.side ?? null,
+  entryPrice: row.entry_price ?? null,
+  exitPrice: row.exit_price ?? null,
+  quantity: row.quantity ?? null,
+  commission: row.commission ?? null,
+  entryTime: row.entry_time?.slice(0, 5) ?? null,
+  exitTime: row.exit_time?.slice(0, 5) ?? null,
+  fills: sortFills((row.trade_fills ?? []).map(fromFillRow)),
+  tagIds: row.tag_ids ?? [],
+  reason: row.reason ?? null,
+  reflection: row.reflection ?? null,
+  imagePaths: row.image_paths ?? [],
+  imageAnnotations: row.image_annotations ?? {},
+  deletedAt: row.deleted_at ?? null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+const toTradeRow = (update: TradeUpdate) => {
+  const row: Partial<Omit<TradeRow, 'trade_fills'>> = {}
+  if (update.tradeDate !== undefined) row.trade_date = update.tradeDate
+  if (update.ticker !== undefined) row.ticker = update.ticker
+  if (update.tickerName !== undefined) row.ticker_name = update.tickerName
+  if (update.realizedProfit !== undefined) row.realized_profit = update.realizedProfit
+  if (update.side !== undefined) row.side = update.side
+  if (update.entryPrice !== undefined) row.entry_price = update.entryPrice
+  if (update.exitPrice !== undefined) row.exit_price = update.exitPrice
+  if (update.quantity !== undefined) row.quantity = update.quantity
+  if (update.commission !== undefined) row.commission = update.commission
+  if (update.entryTime !== undefined) row.entry_time = update.entryTime
+  if (update.exitTime !== undefined) row.exit_time = update.exitTime
+  if (update.tagIds !== undefined) row.tag_ids = update.tagIds
+  if (update.reason !== undefined) row.reason = update.reason
+  if (update.reflection !== undefined) row.reflection = update.reflection
+  if (update.imagePaths !== undefined) row.image_paths = update.imagePaths
+  if (update.imageAnnotations !== undefined) row.image_annotations = update.imageAnnotations
+  if (update.deletedAt !== undefined) row.deleted_at = update.deletedAt
+  return row
+}
+
+export function createSupabaseTradeRepository(client: SupabaseClient): TradeRepository {
+  /** Runs a write RPC (see the save_trade_with_fills migration) and reads back the trade. */
+  const saveTrade = async (fn: 'create_trade' | 'update_trade', args: Record<string, unknown>, fallback: string) => {
+    const { data, error } = await client.rpc(fn, args).select(TRADE_COLUMNS).single()
+
+    if (error || !data) {
+      console.error('Failed to save trade:', error)
+      throw new Error(error?.message ?? fallback)
+    }
+
+    return fromTradeRow(data as TradeRow)
+  }
+
+  const createTrade = (userId: string, input: TradeInput, id?: string) =>
+    saveTrade(
+      'create_trade',
+      {
+        p_trade: { ...(id ? { id } : {}), user_id: userId, ...toTradeRow(input) },
+        p_fills: input.fills.map(toFillRow),
+      },
+      '取引の保存に失敗しました。'
+    )
+
+  const selectTrade = async (id: string) => {
+    const { data, error } = await client.from('trades').select(TRADE_COLUMNS).eq('id', id).maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch trade:', error)
+      throw new Error('取引データの取得に失敗しました。しばらくしてから再度お試しください。')
+    }
+
+    return data ? fromTradeRow(data as TradeRow) : null
+  }
+
+  /** The user's trades matching `filter`, or null when the filter cannot match anything. */
+  const filteredTrades = (userId: string, filter: TradeListFilter) => {
+    let query = client.from('trades').select(TRADE_COLUMNS, { count: 'exact' }).eq('user_id', userId)
+    query = filter.trashed ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null)
+    if (filter.from) query = query.gte('trade_date', filter.from)
+    if (filter.to) query = query.lte('trade_date', filter.to)
+    if (filter.weekdays) query = query.in('trade_weekday', filter.weekdays)
+    if (filter.tagId) query = query.contains('tag_ids', [filter.tagId])
+    if (filter.ticker) query = query.eq('ticker', filter.ticker)
+    for (const { operator, value } of filter.profit ?? []) {
+      query = query.filter('realized_profit', PROFIT_OPERATORS[operator], value)
+    }
+    for (const { field, value, tagIds } of filter.text ?? []) {
+      if (field === 'tag') {
+        if (!tagIds.length) {
+          return null
+        }
+        query = query.overlaps('tag_ids', tagIds)
+      } else if (field) {
+        query = query.ilike(`search->>${field}`, containsPattern(value))
+      } else {
+        const conditions = [`search->>all.ilike.${quoteFilterValue(containsPattern(value))}`]
+        if (tagIds.length) {
+          conditions.push(`tag_ids.ov.{${tagIds.join(',')}}`)
+        }
+        query = query.or(conditions.join(','))
+      }
+    }
+    return query
+  }
+
+  /** Runs an aggregate RPC (see the trade_queries and trade_aggregates migrations) over `filter`. */
+  const aggregate = async <Row>(fn: string, userId: string, filter: TradeFilter) => {
+    const { data, error } = await client.rpc(fn, {
+      p_user_id: userId,
+      p_from: filter.from ?? null,
+      p_to: filter.to ?? null,
+      p_weekdays: filter.weekdays ?? null,
+      p_tag_id: filter.tagId ?? null,
+    })
+
+    if (error) {
+      console.error(`Failed to run ${fn}:`, error)
+      throw new Error('集計の取得に失敗しました。しばらくしてから再度お試しください。')
+    }
+
+    return data as Row[]
+  }
+
+  const selectPage = async (userId: string, filter: TradeListFilter, range: PageRange): Promise<TradePage> => {
+    const query = filteredTrades(userId, filter)
+    if (!query) {
+      return { entries: [], total: 0 }
+    }
+
+    const { data, error, count } = await query
+      .order('trade_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .range(range.offset, range.offset + range.limit - 1)
+
+    if (error) {
+      console.error('Failed to query trades:', error)
+      throw new Error('取引データの取得に失敗しました。しばらくしてから再度お試しください。')
+    }
+
+    return { entries: (data as TradeRow[]).map(fromTradeRow), total: count ?? data.length }
+  }
+
+  return {
+    async queryTrades(userId, filter, range) {
+      if (range) {
+        return selectPage(userId, filter, range)
+      }
+      const first = await selectPage(userId, filter, { offset: 0, limit: QUERY_CHUNK_SIZE })
+      const entries = [...first.entries]
+      while (entries.length < first.total) {
+        const next = await selectPage(userId, filter, { offset: entries.length, limit: QUERY_CHUNK_SIZE })
+        if (!next.entries.length) {
+          break
+        }
+        entries.push(...next.entries)
+      }
+      return { entries, total: first.total }
+    },
+
+    async listDailyTotals(userId, filter) {
+      return (await aggregate<DailyTotalRow>('trade_daily_totals', userId, filter)).map(fromDailyTotalRow)
+    },
+
+    async getPerformance(userId, filter) {
+      // Aggregates without grouping always return exactly one row.
+      const [row] = await aggregate<PerformanceRow>('trade_performance', userId, filter)
+      return fromPerformanceRow(row)
+    },
+
+    async listTagTotals(userId, filter) {
+      return (await aggregate<TagTotalRow>('trade_tag_totals', userId, filter)).map(fromTagTotalRow)
+    },
+
+    async listTimingTotals(userId, filter) {
+      return (await aggregate<TimingTotalRow>('trade_timing_totals', userId, filter)).map(fromTimingTotalRow)
+    },
+
+    async listTickerTotals(userId, filter) {
+      return (await aggregate<TickerTotalRow>('trade_ticker_totals', userId, filter)).map(fromTickerTotalRow)
+    },
+
+    getTrade: selectTrade,
+
+    createTrade,
+
+    async createTrades(userId, inputs) {
+      // Trades with fills go through create_trade so each is written with its
+      // fills; the rest are inserted in one request.
+      const plain = inputs.flatMap((input, index) => (input.fills.length ? [] : [index]))
+      const created: TradeEntry[] = new Array(inputs.length)
+
+      if (plain.length) {
+        const { data, error } = await client
+          .from('trades')
+          .insert(plain.map((index) => ({ user_id: userId, ...toTradeRow(inputs[index]) })))
+          .select(TRADE_COLUMNS)
+
+        if (error || !data) {
+          throw new Error(error?.message ?? '取引の一括保存に失敗しました。')
+        }
+
+        // PostgREST returns inserted rows in request order.
+        const rows = data as TradeRow[]
+        rows.forEach((row, position) => {
+          created[plain[position]] = fromTradeRow(row)
+        })
+      }
+      for (const [index, input] of inputs.entries()) {
+        if (input.fills.length) {
+          created[index] = await createTrade(userId, input)
+        }
+      }
+      return created
+    },
+
+    async updateTrade(id, update) {
+      const row = toTradeRow(update)
+      if (!Object.keys(row).length && update.fills === undefined) {
+        const current = await selectTrade(id)
+        if (!current) {
+          throw new Error('更新に失敗しました。')
+        }
+        return current
+      }
+
+      return saveTrade(
+        'update_trade',
+        { p_id: id, p_changes: row, p_fills: update.fills?.map(toFillRow) ?? null },
+        '更新に失敗しました。'
+      )
+    },
+
+    async deleteTrade(id) {
+      const { error } = await client.from('trades').delete().eq('id', id)
+      if (error) {
+        console.error('Failed to delete trade:', error)
+        throw new Error('削除に失敗しました。しばらくしてから再度お試しください。')
+      }
+    },
+
+    async listRevisions(tradeId) {
+      const { data, error } = await client
+        .from('trade_revisions')
+        .select(REVISION_COLUMNS)
+        .eq('trade_id', tradeId)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Failed to fetch revisions:', error)
+        throw new Error('編集履歴の取得に失敗しました。')
+      }
+
+      return (data as RevisionRow[]).map(fromRevisionRow)
+    },
+
+    async createRevision(userId, tradeId, snapshot, id) {
+      const { data, error } = await client
+        .from('trade_revisions')
+        .insert({ ...(id ? { id } : {}), trade_id: tradeId, user_id: userId, snapshot })
+        .select(REVISION_COLUMNS)
+        .single()
+
+      if (error || !data) {
+        throw new Error(error?.message ?? '編集履歴の保存に失敗しました。')
+      }
+
+      return fromRevisionRow(data as RevisionRow)
+    },
+
+    async uploadImage(userId, file, path = buildImagePath(userId, file)) {
+      const { error } = await client.storage.from(STORAGE_BUCKET).upload(path, file, {
+        cacheControl: '3600',
+        upsert: false,
+      })
+
+      if (error) {
+        throw new Error(`画像のアップロードに失敗しました: ${error.message}`)
+      }
+
+      return path
+    },
+
+    async removeImage(path) {
+      const { error } = await client.storage.from(STORAGE_BUCKET).remove([path])
+      if (error) {
+        console.warn('Failed to delete image from storage:', error)
+      }
+    },
+
+    async listTags(userId) {
+      const { data, error } = await client.from('tags').select(TAG_COLUMNS).eq('user_id', userId).order('name')
+
+      if (error) {
+        console.error('Failed to fetch tags:', error)
+        throw new Error('タグの取得に失敗しました。')
+      }
+
+      return (data as TagRow[]).map(fromTagRow)
+    },
+
+    async createTag(userId, name) {
+      const { data, error } = await client
+        .from('tags')
+        .insert({ user_id: userId, name })
+        .select(TAG_COLUMNS)
+        .single()
+
+      if (error || !data) {
+        throw new Error(error?.code === '23505' ? '同じ名前のタグがあります。' : 'タグの作成に失敗しました。')
+      }
+
+      return fromTagRow(data as TagRow)
+    },
+
+    async renameTag(id, name) {
+      const { data, error } = await client.from('tags').update({ name }).eq('id', id).select(TAG_COLUMNS).single()
+
+      if (error || !data) {
+        throw new Error(error?.code === '23505' ? '同じ名前のタグがあります。' : 'タグの更新に失敗しました。')
+      }
+
+      return fromTagRow(data as TagRow)
+    },
+
+    async deleteTag(id) {
+      const { error } = await client.from('tags').delete().eq('id', id)
+      if (error) {
+        console.error('Failed to delete tag:', error)
+        throw new Error('タグの削除に失敗しました。')
+      }
+    },
+
+    subscribeToChanges(userId, listener) {
+      const channel = client
+        .channel(`trades:${userId}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'trades', filter: `user_id=eq.${userId}` },
+          (payload) => {
+            if (payload.eventType === 'DELETE') {
+              const id = (payload.old as Partial<TradeRow>).id
+              if (id) {
+                listener({ kind: 'delete', tradeId: id })
+              }
+              return
+            }
+            // Row payloads lack the fills join, so the trade is read back in full.
+            selectTrade((payload.new as TradeRow).id)
+              .then((entry) => entry && listener({ kind: 'upsert', entry }))
+              .catch((error) => console.warn('Failed to load a changed trade:', error))
+          }
+        )
+        .subscribe()
+
+      return () => {
+        void client.removeChannel(channel)
+      }
+    },
+
+    async getImageUrls(paths) {
+      if (!paths.length) {
+        return {}
+      }
+      // Measured before the request so the expiry errs on the early side.
+      const expiresAt = Date.now() + SIGNED_URL_TTL_SECONDS * 1000
+      const { data, error } = await client.storage
+        .from(STORAGE_BUCKET)
+        .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS)
+
+      if (error || !data) {
+        console.warn('Failed to generate image URLs', error)
+        return {}
+      }
+
+      return Object.fromEntries(
+        data.flatMap((item) =>
+          item.path && item.signedUrl && !item.error ? [[item.path, { url: item.signedUrl, expiresAt }]] : []
+        )
+      )
+    },
+  }
+}
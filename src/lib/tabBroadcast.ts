@@ -0,0 +1,58 @@
+import type { TradeEntry } from '../types'
+import type { TradeChange, TradeRepository } from './tradeRepository'
+
+const CHANNEL_NAME = 'day-trader-diary:trades'
+
+/**
+ * Publishes this tab's trade writes on a BroadcastChannel and hands other
+ * tabs' writes to change subscribers, so tabs of one browser stay in step
+ * without a server round trip (and in local mode, where there is no server).
+ */
+export function withTabBroadcast(repository: TradeRepository): TradeRepository {
+  if (typeof BroadcastChannel === 'undefined') {
+    return repository
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  const publish = (change: TradeChange) => {
+    channel.postMessage(change)
+  }
+  const publishEntry = (entry: TradeEntry) => {
+    publish({ kind: 'upsert', entry })
+    return entry
+  }
+
+  return {
+    ...repository,
+
+    createTrade: (userId, input, id) => repository.createTrade(userId, input, id).then(publishEntry),
+
+    async createTrades(userId, inputs) {
+      const created = await repository.createTrades(userId, inputs)
+      created.forEach(publishEntry)
+      return created
+    },
+
+    updateTrade: (id, update) => repository.updateTrade(id, update).then(publishEntry),
+
+    async deleteTrade(id) {
+      await repository.deleteTrade(id)
+      publish({ kind: 'delete', tradeId: id })
+    },
+
+    subscribeToChanges(userId, listener) {
+      const unsubscribe = repository.subscribeToChanges(userId, listener)
+      // Deletes carry only an id, so they are passed on unfiltered.
+      const handleMessage = ({ data }: MessageEvent<TradeChange>) => {
+        if (data.kind === 'delete' || data.entry.userId === userId) {
+          listener(data)
+        }
+      }
+      channel.addEventListener('message', handleMessage)
+      return () => {
+        unsubscribe()
+        channel.removeEventListener('message', handleMessage)
+      }
+    },
+  }
+}
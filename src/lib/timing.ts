@@ -0,0 +1,99 @@
+import type { TradeEntry, TradeFill } from '../types'
+
+export type TradeTimes = {
+  entryTime: string | null
+  exitTime: string | null
+}
+
+export type TimeBucket = {
+  key: string
+  label: string
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+const fromMinutes = (total: number) =>
+  `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`
+
+const slotsBetween = (start: string, end: string): TimeBucket[] => {
+  const slots: TimeBucket[] = []
+  for (let minutes = toMinutes(start); minutes < toMinutes(end); minutes += 30) {
+    const from = fromMinutes(minutes)
+    slots.push({ key: from, label: `${from}〜${fromMinutes(minutes + 30)}` })
+  }
+  return slots
+}
+
+/** 30-minute slots of the TSE 前場 (9:00–11:30) and 後場 (12:30–15:30). */
+export const TSE_SESSION_SLOTS: TimeBucket[] = [...slotsBetween('09:00', '11:30'), ...slotsBetween('12:30', '15:30')]
+
+export const OUTSIDE_SESSION_BUCKET: TimeBucket = { key: 'outside', label: '立会時間外' }
+
+export const HOLDING_TIME_BUCKETS: Array<TimeBucket & { maxMinutes: number }> = [
+  { key: 'under5', label: '5分未満', maxMinutes: 5 },
+  { key: 'under15', label: '5〜15分', maxMinutes: 15 },
+  { key: 'under30', label: '15〜30分', maxMinutes: 30 },
+  { key: 'under60', label: '30分〜1時間', maxMinutes: 60 },
+  { key: 'under120', label: '1〜2時間', maxMinutes: 120 },
+  { key: 'longer', label: '2時間以上', maxMinutes: Infinity },
+]
+
+/**
+ * Validates the optional entry/exit times. A blank time falls back to the
+ * first (entry) or last (exit) recorded fill.
+ */
+export const parseTradeTimes = (
+  inputs: { entryTime: string; exitTime: string },
+  fills: Pick<TradeFill, 'time'>[]
+): { times: TradeTimes; error: null } | { times: null; error: string } => {
+  const entryInput = inputs.entryTime.trim()
+  const exitInput = inputs.exitTime.trim()
+  if ([entryInput, exitInput].some((time) => time && !TIME_PATTERN.test(time))) {
+    return { times: null, error: '時刻は HH:MM 形式で入力してください。' }
+  }
+
+  const fillTimes = fills
+    .map((fill) => fill.time)
+    .filter((time) => TIME_PATTERN.test(time))
+    .sort()
+  const entryTime = entryInput || fillTimes[0] || null
+  const exitTime = exitInput || (fillTimes.length > 1 ? fillTimes[fillTimes.length - 1] : null)
+
+  if (entryTime && exitTime && exitTime < entryTime) {
+    return { times: null, error: '決済時刻はエントリー時刻より後にしてください。' }
+  }
+  return { times: { entryTime, exitTime }, error: null }
+}
+
+/** Minutes between entry and exit, or null unless both times are known. */
+export const holdingMinutes = ({ entryTime, exitTime }: Pick<TradeEntry, 'entryTime' | 'exitTime'>) =>
+  entryTime && exitTime ? toMinutes(exitTime) - toMinutes(entryTime) : null
+
+export const formatHoldingTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (!hours) {
+    return `${rest}分`
+  }
+  return rest ? `${hours}時間${rest}分` : `${hours}時間`
+}
+
+export const sessionSlotOf = (time: string) => {
+  const minutes = toMinutes(time)
+  return (
+    TSE_SESSION_SLOTS.find((slot) => minutes >= toMinutes(slot.key) && minutes < toMinutes(slot.key) + 30) ??
+    OUTSIDE_SESSION_BUCKET
+  )
+}
+
+/** Start of the 30-minute slot `time` falls in, as HH:MM. */
+export const slotStartOf = (time: string) => fromMinutes(Math.floor(toMinutes(time) / 30) * 30)
+
+export const holdingBucketOf = (minutes: number) =>
+  HOLDING_TIME_BUCKETS.find((bucket) => minutes < bucket.maxMinutes) ??
+  HOLDING_TIME_BUCKETS[HOLDING_TIME_BUCKETS.length - 1]
@@ -0,0 +1,118 @@
+import type { Tag, TradeEntry, WeekdayFilter } from '../types'
+import type { PageRange, TradeFilter, TradeListFilter, TradePage } from './tradeRepository'
+import { compareProfit, normalizeSearchText } from './tradeSearch'
+import type { SearchField, TradeQuery } from './tradeSearch'
+
+export const weekdaysOf = (filter: WeekdayFilter): number[] | null => {
+  if (filter === 'all') {
+    return null
+  }
+  return filter === 'friSatSun' ? [5, 6, 0] : [filter]
+}
+
+/** Day of the week of a YYYY-MM-DD date, independent of the local time zone. */
+export const weekdayOf = (tradeDate: string) => new Date(tradeDate).getUTCDay()
+
+const lastDayOfMonth = (year: number, month: number) => String(new Date(year, month, 0).getDate()).padStart(2, '0')
+
+/** Inclusive bounds of a `date:` prefix such as 2025 or 2025-03. */
+const prefixRange = (prefix: string) => {
+  const [year, month] = prefix.split('-')
+  if (prefix.length === 4) {
+    return { from: `${year}-01-01`, to: `${year}-12-31` }
+  }
+  if (prefix.length === 7) {
+    return { from: `${prefix}-01`, to: `${prefix}-${lastDayOfMonth(Number(year), Number(month))}` }
+  }
+  return { from: prefix, to: prefix }
+}
+
+const laterOf = (a: string | null | undefined, b: string | null | undefined) =>
+  a && b ? (a > b ? a : b) : a || b || null
+
+const earlierOf = (a: string | null | undefined, b: string | null | undefined) =>
+  a && b ? (a < b ? a : b) : a || b || null
+
+const tagIdsMatching = (value: string, tags: Tag[]) =>
+  tags.filter((tag) => normalizeSearchText(tag.name).includes(value)).map((tag) => tag.id)
+
+/**
+ * Combines the dashboard filters with a parsed search box query into one
+ * filter the store can apply. Date conditions from the query narrow the
+ * base range and tag names are resolved to ids here.
+ */
+export const buildListFilter = (base: TradeFilter, query: TradeQuery, tags: Tag[]): TradeListFilter => {
+  const prefix = query.datePrefix ? prefixRange(query.datePrefix) : null
+  return {
+    ...base,
+    from: laterOf(laterOf(base.from, query.after), prefix?.from),
+    to: earlierOf(earlierOf(base.to, query.before), prefix?.to),
+    profit: query.profit,
+    text: [
+      ...query.terms.map((value) => ({ field: null, value, tagIds: tagIdsMatching(value, tags) })),
+      ...query.fieldTerms.map(({ field, value }) => ({
+        field,
+        value,
+        tagIds: field === 'tag' ? tagIdsMatching(value, tags) : [],
+      })),
+    ],
+  }
+}
+
+const searchTexts = (entry: TradeEntry): Record<Exclude<SearchField, 'tag'>, string> => ({
+  ticker: normalizeSearchText(entry.ticker),
+  name: normalizeSearchText(entry.tickerName),
+  reason: normalizeSearchText(entry.reason ?? ''),
+  reflection: normalizeSearchText(entry.reflection ?? ''),
+})
+
+/** In-memory counterpart of the database filter, for the browser stores. */
+export const matchesTradeFilter = (entry: TradeEntry, filter: TradeListFilter) => {
+  if (Boolean(entry.deletedAt) !== Boolean(filter.trashed)) {
+    return false
+  }
+  if ((filter.from && entry.tradeDate < filter.from) || (filter.to && entry.tradeDate > filter.to)) {
+    return false
+  }
+  if (filter.weekdays && !filter.weekdays.includes(weekdayOf(entry.tradeDate))) {
+    return false
+  }
+  if (filter.tagId && !entry.tagIds.includes(filter.tagId)) {
+    return false
+  }
+  if (filter.ticker && entry.ticker !== filter.ticker) {
+    return false
+  }
+  if (filter.profit?.length) {
+    const profit = entry.realizedProfit
+    if (profit === null || !filter.profit.every((condition) => compareProfit(profit, condition))) {
+      return false
+    }
+  }
+  if (!filter.text?.length) {
+    return true
+  }
+
+  const texts = searchTexts(entry)
+  const allText = Object.values(texts).join('\n')
+  return filter.text.every(({ field, value, tagIds }) => {
+    const hasTag = tagIds.some((id) => entry.tagIds.includes(id))
+    if (field === 'tag') {
+      return hasTag
+    }
+    return (field ? texts[field] : allText).includes(value) || (!field && hasTag)
+  })
+}
+
+/** Newest trade date first; same-day entries newest recorded first. */
+export const compareNewestFirst = (a: TradeEntry, b: TradeEntry) =>
+  b.tradeDate.localeCompare(a.tradeDate) || b.createdAt.localeCompare(a.createdAt)
+
+/** Filters, sorts and pages entries the way queryTrades does on the server. */
+export const pageTrades = (entries: TradeEntry[], filter: TradeListFilter, range?: PageRange): TradePage => {
+  const matching = entries.filter((entry) => matchesTradeFilter(entry, filter)).sort(compareNewestFirst)
+  return {
+    entries: range ? matching.slice(range.offset, range.offset + range.limit) : matching,
+    total: matching.length,
+  }
+}
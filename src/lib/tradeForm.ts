@@ -0,0 +1,59 @@
+import type { FormState } from '../types'
+import { computeRealizedProfit, parsePositionInputs } from './position'
+import { parseTradeTimes } from './timing'
+import type { TradeInput } from './tradeRepository'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export type TradeFormFields = Omit<TradeInput, 'tagIds' | 'imagePaths' | 'imageAnnotations'>
+
+/**
+ * Validates the entry form shared by the new-entry page and the edit modal.
+ * `maxDate` (YYYY-MM-DD) rejects trades dated in the future.
+ */
+export const parseTradeForm = (
+  form: Omit<FormState, 'tagIds' | 'images'>,
+  maxDate: string
+): { fields: TradeFormFields; error: null } | { fields: null; error: string } => {
+  const tradeDate = form.tradeDate.trim()
+  if (!DATE_PATTERN.test(tradeDate) || Number.isNaN(Date.parse(tradeDate))) {
+    return { fields: null, error: '売買日を入力してください。' }
+  }
+  if (tradeDate > maxDate) {
+    return { fields: null, error: '売買日に未来の日付は指定できません。' }
+  }
+
+  const position = parsePositionInputs(form)
+  if (!position.fields) {
+    return { fields: null, error: position.error }
+  }
+  const timing = parseTradeTimes(form, position.fields.fills)
+  if (!timing.times) {
+    return { fields: null, error: timing.error }
+  }
+
+  // A typed P&L overrides the one derived from prices and quantity.
+  let realizedProfit = computeRealizedProfit(position.fields)
+  const profitInput = form.realizedProfit.trim()
+  if (profitInput) {
+    const parsed = Number(profitInput)
+    if (!Number.isFinite(parsed)) {
+      return { fields: null, error: '損益は数値で入力してください。' }
+    }
+    realizedProfit = parsed
+  }
+
+  return {
+    fields: {
+      tradeDate,
+      ticker: form.ticker.trim().toUpperCase(),
+      tickerName: form.tickerName.trim() || null,
+      realizedProfit,
+      ...position.fields,
+      ...timing.times,
+      reason: form.reason.trim() || null,
+      reflection: form.reflection.trim() || null,
+    },
+    error: null,
+  }
+}
@@ -0,0 +1,283 @@
+import type { AnnotationShape, Tag, TradeEntry, TradeFill, TradeSide } from '../types'
+import type { ProfitCondition, SearchField } from './tradeSearch'
+
+export type TradeInput = {
+  tradeDate: string
+  ticker: string
+  tickerName: string | null
+  realizedProfit: number | null
+  side: TradeSide | null
+  entryPrice: number | null
+  exitPrice: number | null
+  quantity: number | null
+  commission: number | null
+  entryTime: string | null
+  exitTime: string | null
+  fills: TradeFill[]
+  tagIds: string[]
+  reason: string | null
+  reflection: string | null
+  imagePaths: string[]
+  imageAnnotations: Record<string, AnnotationShape[]>
+}
+
+/** `expiresAt` is a timestamp in ms; null for URLs that never expire (object URLs). */
+export type SignedImageUrl = {
+  url: string
+  expiresAt: number | null
+}
+
+export type TradeUpdate = Partial<TradeInput> & {
+  /** A timestamp moves the entry to the trash; null restores it. */
+  deletedAt?: string | null
+}
+
+/**
+ * Entry fields as they were before an edit. Screenshots are not versioned:
+ * replaced images are deleted from storage when the edit is saved.
+ */
+export type RevisionSnapshot = Omit<TradeInput, 'imagePaths' | 'imageAnnotations'>
+
+/** Conditions shared by list queries and aggregates. Every set field must match. */
+export type TradeFilter = {
+  /** Inclusive YYYY-MM-DD bounds on the trade date. */
+  from?: string | null
+  to?: string | null
+  /** Days of the week the trade date falls on, 0 = Sunday. */
+  weekdays?: number[] | null
+  tagId?: string | null
+}
+
+/**
+ * One search term, already normalised with normalizeSearchText. Tag names
+ * are matched on the client, so `tagIds` lists the tags whose name contains
+ * the term; a term without a field matches any text field or those tags.
+ */
+export type TextCondition = {
+  field: SearchField | null
+  value: string
+  tagIds: string[]
+}
+
+export type TradeListFilter = TradeFilter & {
+  /** Exact ticker code, as opposed to a text condition on the ticker. */
+  ticker?: string | null
+  profit?: ProfitCondition[]
+  text?: TextCondition[]
+  /** Lists entries in the trash instead of live ones. */
+  trashed?: boolean
+}
+
+export type PageRange = {
+  offset: number
+  limit: number
+}
+
+export type TradePage = {
+  entries: TradeEntry[]
+  /** Matching entries across all pages. */
+  total: number
+}
+
+/** Counts and net P&L of a group of live entries. */
+export type ProfitTotals = {
+  tradeCount: number
+  /** Entries with a recorded P&L; the others do not count toward the profit fields. */
+  profitCount: number
+  winCount: number
+  netProfit: number
+}
+
+/** Totals of one trading day; days without entries are left out. */
+export type DailyTotal = ProfitTotals & {
+  tradeDate: string
+}
+
+/** Totals of the entries carrying a tag; an entry counts toward each of its tags. */
+export type TagTotal = ProfitTotals & {
+  tagId: string
+}
+
+export type TickerTotal = ProfitTotals & {
+  ticker: string
+  /** Latest non-empty name recorded for the ticker. */
+  tickerName: string
+  lastTradeDate: string
+}
+
+/**
+ * Totals by the 30-minute slot the position was opened in ("HH:MM" of the
+ * slot start) or by whole minutes held. Entries without the times are left out.
+ */
+export type TimingTotal = ProfitTotals & ({ entrySlot: string } | { holdingMinutes: number })
+
+/**
+ * Figures that depend on individual results and their order, which daily
+ * totals cannot give. Entries without a P&L are skipped; flat trades end both
+ * streaks.
+ */
+export type TradePerformance = {
+  grossProfit: number
+  /** Sum of the losses, zero or negative. */
+  grossLoss: number
+  winCount: number
+  lossCount: number
+  largestWin: number | null
+  largestLoss: number | null
+  maxConsecutiveWins: number
+  maxConsecutiveLosses: number
+  /** Largest fall of the cumulative P&L below its running peak, which starts at zero. */
+  maxDrawdown: number
+  /** Drawdown relative to the peak; null until the curve has been above zero. */
+  maxDrawdownRate: number | null
+}
+
+/** A write made by another tab or device, as delivered to subscribers. */
+export type TradeChange = { kind: 'upsert'; entry: TradeEntry } | { kind: 'delete'; tradeId: string }
+
+export type TradeRevision = {
+  id: string
+  tradeId: string
+  userId: string
+  snapshot: RevisionSnapshot
+  createdAt: string
+}
+
+/**
+ * Storage backend for journal entries and their screenshots.
+ * Every method throws an Error with a user-facing message on failure.
+ */
+export type TradeRepository = {
+  /**
+   * Entries matching the filter, newest trade date first, filtered and paged
+   * by the store. Without a range every match is returned.
+   */
+  queryTrades: (userId: string, filter: TradeListFilter, range?: PageRange) => Promise<TradePage>
+  /** Per-day totals of live entries matching the filter, oldest first. */
+  listDailyTotals: (userId: string, filter: TradeFilter) => Promise<DailyTotal[]>
+  /** Streaks, drawdown and win/loss sizes of live entries matching the filter. */
+  getPerformance: (userId: string, filter: TradeFilter) => Promise<TradePerformance>
+  /** Per-tag totals of live entries matching the filter, in no particular order. */
+  listTagTotals: (userId: string, filter: TradeFilter) => Promise<TagTotal[]>
+  /** Entry slot and holding time totals of live entries matching the filter. */
+  listTimingTotals: (userId: string, filter: TradeFilter) => Promise<TimingTotal[]>
+  /** Per-ticker totals of live entries matching the filter, in no particular order. */
+  listTickerTotals: (userId: string, filter: TradeFilter) => Promise<TickerTotal[]>
+  getTrade: (id: string) => Promise<TradeEntry | null>
+  /** `id` lets callers that generate ids client-side (the offline outbox) keep them stable. */
+  createTrade: (userId: string, input: TradeInput, id?: string) => Promise<TradeEntry>
+  createTrades: (userId: string, inputs: TradeInput[]) => Promise<TradeEntry[]>
+  updateTrade: (id: string, update: TradeUpdate) => Promise<TradeEntry>
+  /** Permanent; the UI trashes entries via updateTrade first and purges later. */
+  deleteTrade: (id: string) => Promise<void>
+  /** Newest first. */
+  listRevisions: (tradeId: string) => Promise<TradeRevision[]>
+  /** `id` keeps revisions recorded offline stable, as with createTrade. */
+  createRevision: (userId: string, tradeId: string, snapshot: RevisionSnapshot, id?: string) => Promise<TradeRevision>
+  uploadImage: (userId: string, file: File, path?: string) => Promise<string>
+  removeImage: (path: string) => Promise<void>
+  /** Display URLs keyed by path; paths that cannot be signed are left out. */
+  getImageUrls: (paths: string[]) => Promise<Record<string, SignedImageUrl>>
+  listTags: (userId: string) => Promise<Tag[]>
+  createTag: (userId: string, name: string) => Promise<Tag>
+  renameTag: (id: string, name: string) => Promise<Tag>
+  /** Deleting a tag leaves its id on entries; readers ignore unknown ids. */
+  deleteTag: (id: string) => Promise<void>
+  /**
+   * Calls `listener` for the user's trades written elsewhere. The writer's
+   * own changes may be echoed back; returns an unsubscribe function.
+   */
+  subscribeToChanges: (userId: string, listener: (change: TradeChange) => void) => () => void
+}
+
+/**
+ * Fills fields added after an entry was written to a browser store, so
+ * cached rows from older versions satisfy the current TradeEntry shape.
+ */
+export const withEntryDefaults = (stored: TradeEntry): TradeEntry => {
+  // Entries written before multiple images were supported carry `imagePath`.
+  const { imagePath, ...entry } = stored as TradeEntry & { imagePath?: string | null }
+  return {
+    ...entry,
+    side: entry.side ?? null,
+    entryPrice: entry.entryPrice ?? null,
+    exitPrice: entry.exitPrice ?? null,
+    quantity: entry.quantity ?? null,
+    commission: entry.commission ?? null,
+    entryTime: entry.entryTime ?? null,
+    exitTime: entry.exitTime ?? null,
+    fills: entry.fills ?? [],
+    tagIds: entry.tagIds ?? [],
+    imagePaths: entry.imagePaths ?? (imagePath ? [imagePath] : []),
+    imageAnnotations: entry.imageAnnotations ?? {},
+    deletedAt: entry.deletedAt ?? null,
+  }
+}
+
+export const snapshotOf = (entry: TradeEntry): RevisionSnapshot => ({
+  tradeDate: entry.tradeDate,
+  ticker: entry.ticker,
+  tickerName: entry.tickerName || null,
+  realizedProfit: entry.realizedProfit,
+  side: entry.side,
+  entryPrice: entry.entryPrice,
+  exitPrice: entry.exitPrice,
+  quantity: entry.quantity,
+  commission: entry.commission,
+  entryTime: entry.entryTime,
+  exitTime: entry.exitTime,
+  fills: entry.fills,
+  tagIds: entry.tagIds,
+  reason: entry.reason,
+  reflection: entry.reflection,
+})
+
+export const TRADE_FIELDS: Array<keyof TradeUpdate> = [
+  'tradeDate',
+  'ticker',
+  'tickerName',
+  'realizedProfit',
+  'side',
+  'entryPrice',
+  'exitPrice',
+  'quantity',
+  'commission',
+  'entryTime',
+  'exitTime',
+  'fills',
+  'tagIds',
+  'reason',
+  'reflection',
+  'imagePaths',
+  'imageAnnotations',
+  'deletedAt',
+]
+
+const comparable = (field: keyof TradeUpdate, value: TradeUpdate[keyof TradeUpdate]) => {
+  if (field === 'fills' || field === 'tagIds' || field === 'imagePaths' || field === 'imageAnnotations') {
+    return JSON.stringify(value ?? [])
+  }
+  return field === 'tickerName' ? value || null : value
+}
+
+export const normalizeField = (entry: TradeEntry, field: keyof TradeUpdate) => comparable(field, entry[field])
+
+/**
+ * The fields of `update` that differ from `entry`. Edits send only these, so
+ * replaying a queued edit leaves fields changed elsewhere alone.
+ */
+export const changedFields = (entry: TradeEntry, update: TradeUpdate): TradeUpdate =>
+  Object.fromEntries(
+    (Object.keys(update) as Array<keyof TradeUpdate>)
+      .filter((field) => comparable(field, update[field]) !== normalizeField(entry, field))
+      .map((field) => [field, update[field]])
+  )
+
+export const createId = () =>
+  globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(16).slice(2)}`
+
+export const buildImagePath = (userId: string, file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'png'
+  const randomId = createId().replace(/[^a-zA-Z0-9-]/g, '')
+  return `${userId}/${randomId}.${extension}`
+}
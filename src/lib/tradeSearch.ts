@@ -0,0 +1,221 @@
+export type SearchField = 'ticker' | 'name' | 'reason' | 'reflection' | 'tag'
+
+export type ProfitCondition = {
+  operator: '<' | '<=' | '>' | '>=' | '='
+  value: number
+}
+
+/**
+ * A parsed search box query. Free terms must each appear in some text field;
+ * field terms, profit conditions and dates narrow the result further.
+ */
+export type TradeQuery = {
+  terms: string[]
+  fieldTerms: Array<{ field: SearchField; value: string }>
+  profit: ProfitCondition[]
+  /** Inclusive YYYY-MM-DD bounds. */
+  after: string | null
+  before: string | null
+  /** Prefix of the trade date, e.g. 2025-03. */
+  datePrefix: string | null
+  errors: string[]
+}
+
+const toHiragana = (text: string) =>
+  text.replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+
+/**
+ * Folds full-width/half-width forms (NFKC), letter case and katakana to
+ * hiragana so that ﾄﾖﾀ, トヨタ and とよた all match each other.
+ */
+export const normalizeSearchText = (text: string) => toHiragana(text.normalize('NFKC').toLowerCase())
+
+const FIELD_KEYS: Record<string, SearchField> = {
+  ticker: 'ticker',
+  code: 'ticker',
+  銘柄: 'ticker',
+  name: 'name',
+  銘柄名: 'name',
+  reason: 'reason',
+  理由: 'reason',
+  reflection: 'reflection',
+  振り返り: 'reflection',
+  tag: 'tag',
+  タグ: 'tag',
+}
+
+// Keys are matched after normalisation, so タグ: is looked up as たぐ:.
+const NORMALIZED_FIELD_KEYS = new Map(
+  Object.entries(FIELD_KEYS).map(([key, field]) => [normalizeSearchText(key), field])
+)
+const PROFIT_KEYS = new Set(['profit', '損益'].map(normalizeSearchText))
+const DATE_KEYS = {
+  after: new Set(['after', 'from', '以降'].map(normalizeSearchText)),
+  before: new Set(['before', 'to', '以前'].map(normalizeSearchText)),
+  date: new Set(['date', '日付'].map(normalizeSearchText)),
+}
+
+const TOKEN_PATTERN = /[^\s"]+:"[^"]*"|"[^"]*"|\S+/g
+const PROFIT_PATTERN = /^([^<>=:]+)(<=|>=|<|>|=|:)(.+)$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DATE_PREFIX_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-\d{2})?)?$/
+
+// Dates are sent to the database as-is, so 2025-02-30 must not get through.
+const isCalendarDate = (value: string) => {
+  const date = new Date(value)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1')
+
+const parseProfit = (value: string) => {
+  const amount = Number(value.replace(/[,円]/g, ''))
+  return value && Number.isFinite(amount) ? amount : null
+}
+
+export const parseTradeQuery = (input: string): TradeQuery => {
+  const query: TradeQuery = {
+    terms: [],
+    fieldTerms: [],
+    profit: [],
+    after: null,
+    before: null,
+    datePrefix: null,
+    errors: [],
+  }
+
+  for (const token of normalizeSearchText(input).match(TOKEN_PATTERN) ?? []) {
+    const match = PROFIT_PATTERN.exec(token)
+    const key = match?.[1] ?? ''
+    const operator = match?.[2] ?? ''
+    const value = unquote(match?.[3] ?? '')
+
+    if (match && PROFIT_KEYS.has(key)) {
+      const amount = parseProfit(value)
+      if (amount === null) {
+        query.errors.push(`損益の条件「${token}」は数値で指定してください。`)
+      } else {
+        query.profit.push({ operator: operator === ':' ? '=' : (operator as ProfitCondition['operator']), value: amount })
+      }
+      continue
+    }
+
+    if (operator === ':') {
+      const field = NORMALIZED_FIELD_KEYS.get(key)
+      if (field) {
+        if (value) {
+          query.fieldTerms.push({ field, value })
+        }
+        continue
+      }
+      if (DATE_KEYS.after.has(key) || DATE_KEYS.before.has(key)) {
+        if (!DATE_PATTERN.test(value) || !isCalendarDate(value)) {
+          query.errors.push(`日付「${token}」は YYYY-MM-DD 形式で指定してください。`)
+        } else if (DATE_KEYS.after.has(key)) {
+          query.after = value
+        } else {
+          query.before = value
+        }
+        continue
+      }
+      if (DATE_KEYS.date.has(key)) {
+        if (DATE_PREFIX_PATTERN.test(value) && (value.length < 10 || isCalendarDate(value))) {
+          query.datePrefix = value
+        } else {
+          query.errors.push(`日付「${token}」は YYYY、YYYY-MM または YYYY-MM-DD で指定してください。`)
+        }
+        continue
+      }
+    }
+
+    // Anything else, including unknown keys like 9:30, is plain text.
+    const term = unquote(token)
+    if (term) {
+      query.terms.push(term)
+    }
+  }
+
+  return query
+}
+
+export const isEmptyQuery = (query: TradeQuery) =>
+  !query.terms.length &&
+  !query.fieldTerms.length &&
+  !query.profit.length &&
+  !query.after &&
+  !query.before &&
+  !query.datePrefix
+
+export const compareProfit = (profit: number, { operator, value }: ProfitCondition) => {
+  switch (operator) {
+    case '<':
+      return profit < value
+    case '<=':
+      return profit <= value
+    case '>':
+      return profit > value
+    case '>=':
+      return profit >= value
+    default:
+      return profit === value
+  }
+}
+
+/** Terms to highlight in one field: free terms plus that field's own terms. */
+export const highlightTermsFor = (query: TradeQuery, field: SearchField) => [
+  ...query.terms,
+  ...query.fieldTerms.filter((term) => term.field === field).map((term) => term.value),
+]
+
+export type HighlightSegment = {
+  text: string
+  isMatch: boolean
+}
+
+/**
+ * Splits `text` into plain and matching segments. Matching runs on the
+ * normalised text, so each normalised character remembers which slice of the
+ * original it came from.
+ */
+export const splitHighlights = (text: string, terms: string[]): HighlightSegment[] => {
+  const activeTerms = terms.filter(Boolean)
+  if (!text || !activeTerms.length) {
+    return [{ text, isMatch: false }]
+  }
+
+  let normalized = ''
+  const starts: number[] = []
+  const ends: number[] = []
+  for (let index = 0; index < text.length; ) {
+    let end = index + ((text.codePointAt(index) ?? 0) > 0xffff ? 2 : 1)
+    // Half-width dakuten/handakuten compose with the preceding kana under NFKC.
+    while (/[ﾞﾟ]/.test(text[end] ?? '')) {
+      end += 1
+    }
+    const part = normalizeSearchText(text.slice(index, end))
+    for (let k = 0; k < part.length; k += 1) {
+      starts.push(index)
+      ends.push(end)
+    }
+    normalized += part
+    index = end
+  }
+
+  const matched = new Array<boolean>(text.length).fill(false)
+  for (const term of activeTerms) {
+    for (let found = normalized.indexOf(term); found !== -1; found = normalized.indexOf(term, found + 1)) {
+      matched.fill(true, starts[found], ends[found + term.length - 1])
+    }
+  }
+
+  const segments: HighlightSegment[] = []
+  for (let index = 0; index < text.length; index += 1) {
+    const last = segments[segments.length - 1]
+    if (last && last.isMatch === matched[index]) {
+      last.text += text[index]
+    } else {
+      segments.push({ text: text[index], isMatch: matched[index] })
+    }
+  }
+  return segments
+}
@@ -0,0 +1,20 @@
+import type { TradeEntry } from '../types'
+
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** When a trashed entry is purged automatically. */
+export const purgeDateOf = (entry: Pick<TradeEntry, 'deletedAt'>) =>
+  entry.deletedAt ? new Date(Date.parse(entry.deletedAt) + TRASH_RETENTION_DAYS * DAY_MS) : null
+
+export const isPurgeDue = (entry: Pick<TradeEntry, 'deletedAt'>, now = new Date()) => {
+  const purgeDate = purgeDateOf(entry)
+  return purgeDate !== null && purgeDate <= now
+}
+
+/** Whole days left before the purge, at least 0. */
+export const daysUntilPurge = (entry: Pick<TradeEntry, 'deletedAt'>, now = new Date()) => {
+  const purgeDate = purgeDateOf(entry)
+  return purgeDate ? Math.max(0, Math.ceil((purgeDate.getTime() - now.getTime()) / DAY_MS)) : null
+}
@@ -1,3 +1,37 @@
+export type SyncStatus = "synced" | "pending" | "conflict"
+
+/** Dashboard weekday filter: a single Mon–Thu weekday, or Fri–Sun together. */
+export type WeekdayFilter = "all" | "friSatSun" | 1 | 2 | 3 | 4
+
+/** long = 買い (現物・信用買い), short = 売り (信用売り) */
+export type TradeSide = "long" | "short"
+
+export type FillSide = "buy" | "sell"
+
+/** One execution within a trade; `time` is the HH:MM on the trade date. */
+export type TradeFill = {
+  id: string
+  time: string
+  side: FillSide
+  price: number
+  quantity: number
+}
+
+export type FillDraft = {
+  id: string
+  time: string
+  side: FillSide
+  price: string
+  quantity: string
+}
+
+export type Tag = {
+  id: string
+  userId: string
+  name: string
+  createdAt: string
+}
+
 export type TradeEntry = {
   id: string
   userId: string
@@ -5,10 +39,25 @@ export type TradeEntry = {
   ticker: string
   tickerName: string
   realizedProfit: number | null
+  side: TradeSide | null
+  entryPrice: number | null
+  exitPrice: number | null
+  quantity: number | null
+  commission: number | null
+  /** HH:MM on the trade date; used for time-of-day and holding-time analysis. */
+  entryTime: string | null
+  exitTime: string | null
+  fills: TradeFill[]
+  tagIds: string[]
   reason: string | null
   reflection: string | null
-  imagePath: string | null
-  imageUrl?: string
+  /** Storage paths in display order. */
+  imagePaths: string[]
+  /** Vector markup drawn over each image, keyed by storage path. */
+  imageAnnotations: Record<string, AnnotationShape[]>
+  syncStatus?: SyncStatus
+  /** Set while the entry is in the trash; purged for good after 30 days. */
+  deletedAt: string | null
   createdAt: string
   updatedAt: string
 }
@@ -20,11 +69,33 @@ export type FormState = {
   reason: string
   reflection: string
   realizedProfit: string
+  side: TradeSide | ""
+  entryPrice: string
+  exitPrice: string
+  quantity: string
+  commission: string
+  entryTime: string
+  exitTime: string
+  fills: FillDraft[]
+  tagIds: string[]
+  images: ImageDraft[]
 }
 
+/** An image in a form: already stored (`path`) or waiting to be uploaded (`file`). */
+export type ImageDraft = {
+  key: string
+  path: string | null
+  file: File | null
+  /** Object URL for a new file; stored images are shown by path. */
+  previewUrl: string | null
+}
+
+export type LoginMode = 'password' | 'magicLink' | 'signUp' | 'resetRequest'
+
 export type LoginState = {
   email: string
   password: string
+  passwordConfirmation: string
 }
 
 export type CalendarCell = {
@@ -32,6 +103,7 @@ export type CalendarCell = {
   isPlaceholder?: boolean
   day?: number
   profit?: number | null
+  tradeCount?: number
   isToday?: boolean
 }
 
@@ -41,14 +113,35 @@ export type MonthSummary = {
   net: number
 }
 
-export type EditEntryDraft = {
+/** The edit modal reuses the new-entry form state, so both validate alike. */
+export type EditEntryDraft = FormState & {
   id: string
-  reason: string
-  reflection: string
-  realizedProfitInput: string
 }
 
-export type ImageViewerState = {
-  src: string
+/** Position on an image, normalised to 0–1 so shapes survive resizing. */
+export type AnnotationPoint = {
+  x: number
+  y: number
+}
+
+export type AnnotationShape = { id: string; color: string } & (
+  | { kind: "arrow"; from: AnnotationPoint; to: AnnotationPoint }
+  | { kind: "hline"; y: number }
+  | { kind: "rect"; from: AnnotationPoint; to: AnnotationPoint }
+  | { kind: "freehand"; points: AnnotationPoint[] }
+  | { kind: "text"; at: AnnotationPoint; text: string }
+)
+
+export type AnnotationTool = AnnotationShape["kind"]
+
+export type ViewerImage = {
+  path: string
   alt: string
+  annotations: AnnotationShape[]
+}
+
+/** Images are read from the entry so saved annotations show up immediately. */
+export type ImageViewerState = {
+  entryId: string
+  index: number
 }
@@ -0,0 +1,8 @@
+-- Structured position fields. realized_profit stays the source of truth for
+-- P&L; the client derives it from these when the user leaves it blank.
+alter table public.trades
+  add column if not exists side text check (side in ('long', 'short')),
+  add column if not exists entry_price numeric check (entry_price > 0),
+  add column if not exists exit_price numeric check (exit_price > 0),
+  add column if not exists quantity integer check (quantity > 0),
+  add column if not exists commission numeric check (commission >= 0);
@@ -0,0 +1,20 @@
+-- Individual executions (scale-in / scale-out legs) of a trade.
+create table if not exists public.trade_fills (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null references public.trades (id) on delete cascade,
+  filled_at time,
+  side text not null check (side in ('buy', 'sell')),
+  price numeric not null check (price > 0),
+  quantity integer not null check (quantity > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists trade_fills_trade_id_idx on public.trade_fills (trade_id);
+
+alter table public.trade_fills enable row level security;
+
+create policy "Users manage fills of their own trades"
+  on public.trade_fills
+  for all
+  using (exists (select 1 from public.trades where trades.id = trade_fills.trade_id and trades.user_id = auth.uid()))
+  with check (exists (select 1 from public.trades where trades.id = trade_fills.trade_id and trades.user_id = auth.uid()));
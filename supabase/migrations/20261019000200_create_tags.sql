@@ -0,0 +1,22 @@
+-- User-defined setup tags. Entries reference tags by id so renames apply
+-- everywhere; ids of deleted tags are ignored by the client.
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.tags enable row level security;
+
+create policy "Users manage their own tags"
+  on public.tags
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.trades
+  add column if not exists tag_ids uuid[] not null default '{}';
+
+create index if not exists trades_tag_ids_idx on public.trades using gin (tag_ids);
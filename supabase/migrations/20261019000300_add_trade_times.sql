@@ -0,0 +1,9 @@
+-- Optional intraday entry/exit times (JST wall clock on trade_date) for
+-- time-of-day and holding-time analysis.
+alter table public.trades
+  add column if not exists entry_time time,
+  add column if not exists exit_time time;
+
+alter table public.trades
+  add constraint trades_exit_after_entry
+  check (entry_time is null or exit_time is null or exit_time >= entry_time);
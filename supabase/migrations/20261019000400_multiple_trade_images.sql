@@ -0,0 +1,12 @@
+-- Several screenshots per trade (e.g. 1-minute chart, daily chart, board),
+-- stored as storage paths in display order. Existing single images become
+-- the first element.
+alter table public.trades
+  add column if not exists image_paths text[] not null default '{}';
+
+update public.trades
+  set image_paths = array[image_path]
+  where image_path is not null and image_paths = '{}';
+
+alter table public.trades
+  drop column if exists image_path;
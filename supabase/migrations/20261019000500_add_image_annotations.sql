@@ -0,0 +1,4 @@
+-- Vector markup (arrows, lines, boxes, strokes, labels) drawn over trade
+-- screenshots, keyed by storage path. Coordinates are normalised to 0-1.
+alter table public.trades
+  add column if not exists image_annotations jsonb not null default '{}'::jsonb;
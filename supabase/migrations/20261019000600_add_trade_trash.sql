@@ -0,0 +1,8 @@
+-- Soft delete. A timestamp moves the entry to the trash; the client purges
+-- rows (and their storage objects) 30 days later.
+alter table public.trades
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists trades_deleted_at_idx
+  on public.trades (user_id, deleted_at)
+  where deleted_at is not null;
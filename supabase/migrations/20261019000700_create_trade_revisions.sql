@@ -0,0 +1,23 @@
+-- Edit history. Each row holds an entry's fields as they were before an
+-- edit; purging the entry removes its history.
+create table if not exists public.trade_revisions (
+  id uuid primary key default gen_random_uuid(),
+  trade_id uuid not null references public.trades (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  snapshot jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists trade_revisions_trade_id_idx
+  on public.trade_revisions (trade_id, created_at desc);
+
+alter table public.trade_revisions enable row level security;
+
+create policy "Users manage revisions of their own trades"
+  on public.trade_revisions
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.trades where trades.id = trade_revisions.trade_id and trades.user_id = auth.uid())
+  );
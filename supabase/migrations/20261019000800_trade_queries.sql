@@ -0,0 +1,103 @@
+-- Server-side filtering for the paged history and per-day aggregates for the
+-- calendar and summary, so the client no longer loads every row.
+
+-- Same folding as normalizeSearchText on the client: NFKC, lower case and
+-- katakana to hiragana.
+create or replace function public.normalize_search_text(value text)
+returns text
+language sql
+immutable
+as $$
+  select translate(
+    lower(normalize(coalesce(value, ''), NFKC)),
+    'ァアィイゥウェエォオカガキギクグケゲコゴサザシジスズセゼソゾタダチヂッツヅテデトドナニヌネノハバパヒビピフブプヘベペホボポマミムメモャヤュユョヨラリルレロヮワヰヱヲンヴヵヶ',
+    'ぁあぃいぅうぇえぉおかがきぎくぐけげこごさざしじすずせぜそぞただちぢっつづてでとどなにぬねのはばぱひびぴふぶぷへべぺほぼぽまみむめもゃやゅゆょよらりるれろゎわゐゑをんゔゕゖ'
+  )
+$$;
+
+-- Normalised text per search field plus `all` for terms without a field.
+-- Tag names are matched on the client and sent as tag ids.
+create or replace function public.trade_search_document(
+  ticker text,
+  ticker_name text,
+  reason text,
+  reflection text
+)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_build_object(
+    'ticker', public.normalize_search_text(ticker),
+    'name', public.normalize_search_text(ticker_name),
+    'reason', public.normalize_search_text(reason),
+    'reflection', public.normalize_search_text(reflection),
+    'all', public.normalize_search_text(
+      coalesce(ticker, '') || E'\n' || coalesce(ticker_name, '') || E'\n' ||
+      coalesce(reason, '') || E'\n' || coalesce(reflection, '')
+    )
+  )
+$$;
+
+alter table public.trades
+  add column if not exists search jsonb not null default '{}',
+  add column if not exists trade_weekday smallint generated always as (extract(dow from trade_date)::smallint) stored;
+
+create or replace function public.set_trade_search()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search := public.trade_search_document(new.ticker, new.ticker_name, new.reason, new.reflection);
+  return new;
+end;
+$$;
+
+drop trigger if exists trades_set_search on public.trades;
+create trigger trades_set_search
+  before insert or update of ticker, ticker_name, reason, reflection on public.trades
+  for each row execute function public.set_trade_search();
+
+update public.trades
+  set search = public.trade_search_document(ticker, ticker_name, reason, reflection);
+
+-- History pages are read newest first within the live entries.
+create index if not exists trades_live_date_idx
+  on public.trades (user_id, trade_date desc, created_at desc)
+  where deleted_at is null;
+
+-- Runs with the caller's privileges, so row level security still applies.
+create or replace function public.trade_daily_totals(
+  p_user_id uuid,
+  p_from date default null,
+  p_to date default null,
+  p_weekdays smallint[] default null,
+  p_tag_id uuid default null
+)
+returns table (
+  trade_date date,
+  trade_count integer,
+  profit_count integer,
+  win_count integer,
+  net_profit double precision
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    t.trade_date,
+    count(*)::integer,
+    count(t.realized_profit)::integer,
+    (count(*) filter (where t.realized_profit > 0))::integer,
+    coalesce(sum(t.realized_profit), 0)::double precision
+  from public.trades t
+  where t.user_id = p_user_id
+    and t.deleted_at is null
+    and (p_from is null or t.trade_date >= p_from)
+    and (p_to is null or t.trade_date <= p_to)
+    and (p_weekdays is null or t.trade_weekday = any (p_weekdays))
+    and (p_tag_id is null or t.tag_ids @> array[p_tag_id])
+  group by t.trade_date
+  order by t.trade_date
+$$;
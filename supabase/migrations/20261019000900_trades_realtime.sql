@@ -0,0 +1,5 @@
+-- Broadcast trade changes to the user's other sessions. Full replica
+-- identity puts user_id into delete events so the per-user filter matches.
+alter table public.trades replica identity full;
+
+alter publication supabase_realtime add table public.trades;
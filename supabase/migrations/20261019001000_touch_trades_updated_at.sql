@@ -0,0 +1,17 @@
+-- Offline replay detects concurrent edits by comparing updated_at with the
+-- copy the edit was based on, so every write must move it forward, whether
+-- or not the client sends the column.
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trades_touch_updated_at on public.trades;
+create trigger trades_touch_updated_at
+  before update on public.trades
+  for each row execute function public.touch_updated_at();
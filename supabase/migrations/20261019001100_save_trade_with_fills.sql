@@ -0,0 +1,78 @@
+-- Writes a trade and its fills in one transaction, so a failed insert can no
+-- longer leave a trade without fills or with fills that do not match its
+-- totals. Updating the row also bumps updated_at for fill-only edits, which
+-- offline replay and the realtime feed rely on.
+
+-- Fills are replaced wholesale; a trade has at most a handful of legs.
+create or replace function public.replace_trade_fills(p_trade_id uuid, p_fills jsonb)
+returns void
+language sql
+security invoker
+as $$
+  delete from public.trade_fills where trade_id = p_trade_id;
+  insert into public.trade_fills (id, trade_id, filled_at, side, price, quantity)
+    select coalesce(f.id, gen_random_uuid()), p_trade_id, f.filled_at, f.side, f.price, f.quantity
+    from jsonb_populate_recordset(null::public.trade_fills, coalesce(p_fills, '[]')) f;
+$$;
+
+-- `p_trade` holds trades columns by name; missing ones take their defaults.
+-- deleted_at is kept so an entry trashed before its queued create was sent
+-- stays in the trash.
+create or replace function public.create_trade(p_trade jsonb, p_fills jsonb)
+returns setof public.trades
+language plpgsql
+security invoker
+as $$
+declare
+  v_id uuid;
+begin
+  insert into public.trades (
+    id, user_id, trade_date, ticker, ticker_name, realized_profit, side, entry_price, exit_price,
+    quantity, commission, entry_time, exit_time, tag_ids, reason, reflection, image_paths,
+    image_annotations, deleted_at
+  )
+  select
+    coalesce(r.id, gen_random_uuid()), r.user_id, r.trade_date, r.ticker, r.ticker_name,
+    r.realized_profit, r.side, r.entry_price, r.exit_price, r.quantity, r.commission, r.entry_time,
+    r.exit_time, coalesce(r.tag_ids, '{}'), r.reason, r.reflection, coalesce(r.image_paths, '{}'),
+    coalesce(r.image_annotations, '{}'), r.deleted_at
+  from jsonb_populate_record(null::public.trades, p_trade) r
+  returning id into v_id;
+
+  perform public.replace_trade_fills(v_id, p_fills);
+  return query select * from public.trades where id = v_id;
+end;
+$$;
+
+-- Only the columns present in `p_changes` change. Fills are left alone
+-- when `p_fills` is null.
+create or replace function public.update_trade(p_id uuid, p_changes jsonb, p_fills jsonb default null)
+returns setof public.trades
+language plpgsql
+security invoker
+as $$
+begin
+  update public.trades t
+    set (
+      trade_date, ticker, ticker_name, realized_profit, side, entry_price, exit_price, quantity,
+      commission, entry_time, exit_time, tag_ids, reason, reflection, image_paths,
+      image_annotations, deleted_at
+    ) = (
+      select
+        r.trade_date, r.ticker, r.ticker_name, r.realized_profit, r.side, r.entry_price,
+        r.exit_price, r.quantity, r.commission, r.entry_time, r.exit_time, r.tag_ids, r.reason,
+        r.reflection, r.image_paths, r.image_annotations, r.deleted_at
+      from jsonb_populate_record(t, p_changes) r
+    )
+    where t.id = p_id;
+
+  if not found then
+    raise exception 'trade % not found', p_id using errcode = 'P0002';
+  end if;
+
+  if p_fills is not null then
+    perform public.replace_trade_fills(p_id, p_fills);
+  end if;
+  return query select * from public.trades where id = p_id;
+end;
+$$;
@@ -0,0 +1,223 @@
+-- Aggregates for the dashboard and the ticker breakdown, so neither has to
+-- download the trades of the whole period. Every function takes the filter
+-- parameters of trade_daily_totals and runs with the caller's privileges, so
+-- row level security still applies.
+
+-- Live trades matching the shared filter parameters.
+create or replace function public.filtered_trades(
+  p_user_id uuid,
+  p_from date default null,
+  p_to date default null,
+  p_weekdays smallint[] default null,
+  p_tag_id uuid default null
+)
+returns setof public.trades
+language sql
+stable
+security invoker
+as $$
+  select t.*
+  from public.trades t
+  where t.user_id = p_user_id
+    and t.deleted_at is null
+    and (p_from is null or t.trade_date >= p_from)
+    and (p_to is null or t.trade_date <= p_to)
+    and (p_weekdays is null or t.trade_weekday = any (p_weekdays))
+    and (p_tag_id is null or t.tag_ids @> array[p_tag_id])
+$$;
+
+-- Same figures as measurePerformance on the client: trades with a P&L in
+-- date and creation order, flat trades ending both streaks and the drawdown
+-- measured from a running peak that starts at zero. Always one row.
+create or replace function public.trade_performance(
+  p_user_id uuid,
+  p_from date default null,
+  p_to date default null,
+  p_weekdays smallint[] default null,
+  p_tag_id uuid default null
+)
+returns table (
+  gross_profit double precision,
+  gross_loss double precision,
+  win_count integer,
+  loss_count integer,
+  largest_win double precision,
+  largest_loss double precision,
+  max_consecutive_wins integer,
+  max_consecutive_losses integer,
+  max_drawdown double precision,
+  max_drawdown_rate double precision
+)
+language sql
+stable
+security invoker
+as $$
+  with results as (
+    select
+      t.realized_profit::double precision as profit,
+      sign(t.realized_profit) as outcome,
+      row_number() over (order by t.trade_date, t.created_at, t.id) as seq
+    from public.filtered_trades(p_user_id, p_from, p_to, p_weekdays, p_tag_id) t
+    where t.realized_profit is not null
+  ),
+  curve as (
+    select
+      profit,
+      outcome,
+      seq,
+      -- Trades in an unbroken run of the same outcome share a run id.
+      seq - row_number() over (partition by outcome order by seq) as run_id,
+      sum(profit) over (order by seq) as equity
+    from results
+  ),
+  peaks as (
+    select
+      profit,
+      outcome,
+      run_id,
+      equity,
+      greatest(0, max(equity) over (order by seq)) as peak
+    from curve
+  ),
+  streaks as (
+    select outcome, count(*) as run_length
+    from peaks
+    group by outcome, run_id
+  )
+  select
+    coalesce(sum(profit) filter (where profit > 0), 0),
+    coalesce(sum(profit) filter (where profit < 0), 0),
+    (count(*) filter (where profit > 0))::integer,
+    (count(*) filter (where profit < 0))::integer,
+    max(profit) filter (where profit > 0),
+    min(profit) filter (where profit < 0),
+    coalesce((select max(run_length) from streaks where outcome > 0), 0)::integer,
+    coalesce((select max(run_length) from streaks where outcome < 0), 0)::integer,
+    coalesce(max(peak - equity), 0),
+    max((peak - equity) / peak) filter (where peak > 0)
+  from peaks
+$$;
+
+-- A trade counts toward each of its tags.
+create or replace function public.trade_tag_totals(
+  p_user_id uuid,
+  p_from date default null,
+  p_to date default null,
+  p_weekdays smallint[] default null,
+  p_tag_id uuid default null
+)
+returns table (
+  tag_id uuid,
+  trade_count integer,
+  profit_count integer,
+  win_count integer,
+  net_profit double precision
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    tag.tag_id,
+    count(*)::integer,
+    count(t.realized_profit)::integer,
+    (count(*) filter (where t.realized_profit > 0))::integer,
+    coalesce(sum(t.realized_profit), 0)::double precision
+  from public.filtered_trades(p_user_id, p_from, p_to, p_weekdays, p_tag_id) t
+  cross join unnest(t.tag_ids) as tag (tag_id)
+  group by tag.tag_id
+$$;
+
+-- Rows by the start of the 30-minute slot the position was opened in
+-- (entry_slot, HH:MM) and by whole minutes held (holding_minutes); exactly
+-- one of the two is set. The client maps them onto the session and holding
+-- time buckets.
+create or replace function public.trade_timing_totals(
+  p_user_id uuid,
+  p_from date default null,
+  p_to date default null,
+  p_weekdays smallint[] default null,
+  p_tag_id uuid default null
+)
+returns table (
+  entry_slot text,
+  holding_minutes integer,
+  trade_count integer,
+  profit_count integer,
+  win_count integer,
+  net_profit double precision
+)
+language sql
+stable
+security invoker
+as $$
+  with timed as (
+    select
+      to_char(
+        date_trunc('hour', t.entry_time::interval)
+          + (extract(minute from t.entry_time)::integer / 30) * interval '30 minutes',
+        'HH24:MI'
+      ) as entry_slot,
+      (extract(epoch from t.exit_time - t.entry_time)::integer / 60) as holding_minutes,
+      t.realized_profit
+    from public.filtered_trades(p_user_id, p_from, p_to, p_weekdays, p_tag_id) t
+    where t.entry_time is not null
+  )
+  select
+    entry_slot,
+    null::integer,
+    count(*)::integer,
+    count(realized_profit)::integer,
+    (count(*) filter (where realized_profit > 0))::integer,
+    coalesce(sum(realized_profit), 0)::double precision
+  from timed
+  group by entry_slot
+  union all
+  select
+    null::text,
+    holding_minutes,
+    count(*)::integer,
+    count(realized_profit)::integer,
+    (count(*) filter (where realized_profit > 0))::integer,
+    coalesce(sum(realized_profit), 0)::double precision
+  from timed
+  where holding_minutes is not null
+  group by holding_minutes
+$$;
+
+-- ticker_name is the latest non-empty name recorded for the ticker.
+create or replace function public.trade_ticker_totals(
+  p_user_id uuid,
+  p_from date default null,
+  p_to date default null,
+  p_weekdays smallint[] default null,
+  p_tag_id uuid default null
+)
+returns table (
+  ticker text,
+  ticker_name text,
+  last_trade_date date,
+  trade_count integer,
+  profit_count integer,
+  win_count integer,
+  net_profit double precision
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    t.ticker::text,
+    coalesce(
+      (array_agg(t.ticker_name::text order by t.trade_date desc, t.created_at desc)
+        filter (where coalesce(t.ticker_name, '') <> ''))[1],
+      ''
+    ),
+    max(t.trade_date),
+    count(*)::integer,
+    count(t.realized_profit)::integer,
+    (count(*) filter (where t.realized_profit > 0))::integer,
+    coalesce(sum(t.realized_profit), 0)::double precision
+  from public.filtered_trades(p_user_id, p_from, p_to, p_weekdays, p_tag_id) t
+  group by t.ticker
+$$;